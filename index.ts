@@ -7,24 +7,44 @@
 
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import express from "express";
 import { randomUUID } from "crypto";
-import { createElasticsearchMcpServer, ElasticsearchConfig } from "./src/server.js";
+import { createClusterRegistry, createElasticsearchMcpServer, releaseServerResources } from "./src/server.js";
+import { loadConfig } from "./src/config-loader.js";
+import { configureTokenCounter, parseTokenCounterOptions } from "./src/token-counter.js";
+import { resolveNodeUrl } from "./src/connection-auth.js";
+import { SessionManager, type McpSession } from "./src/session-manager.js";
+import { parseDurationMs } from "./src/cursor-store.js";
+import { enableMetrics, metrics } from "./src/metrics.js";
+import {
+  SESSION_API_KEY_HEADER,
+  createHttpAuthMiddleware,
+  sessionConfig,
+  sessionOwner,
+} from "./src/http-auth.js";
 
-const config: ElasticsearchConfig = {
-  url: process.env.ES_URL || "",
-  apiKey: process.env.ES_API_KEY || "",
-  username: process.env.ES_USERNAME || "",
-  password: process.env.ES_PASSWORD || "",
-  caCert: process.env.ES_CA_CERT || "",
-};
+/** How long draining may take on SIGINT/SIGTERM before the process exits anyway */
+const SHUTDOWN_TIMEOUT_MS = 10_000;
 
 async function main() {
   try {
+    // Config file (--config or ES_MCP_CONFIG) with environment variables as overrides
+    const { config, file } = loadConfig();
+    if (file) {
+      process.stderr.write(`Loaded configuration from ${file}\n`);
+    }
+
+    // The token counter is shared by every session, so its encoding is set once here
+    if (config.tokenEncoding) {
+      configureTokenCounter(parseTokenCounterOptions(config.tokenEncoding));
+    }
+
     // Check if HTTP transport mode is enabled
-    const useHttp = process.env.MCP_TRANSPORT === 'http';
-    const httpPort = parseInt(process.env.MCP_HTTP_PORT || '3000');
-    const httpHost = process.env.MCP_HTTP_HOST || 'localhost';
+    const useHttp = config.transport?.mode === 'http';
+    const httpPort = config.transport?.port ?? 3000;
+    const httpHost = config.transport?.host || 'localhost';
 
     if (useHttp) {
       // HTTP Streamable Mode - Use Streamable HTTP Transport
@@ -33,49 +53,167 @@ async function main() {
       const app = express();
       app.use(express.json());
       
-      // Store active transports by session ID
-      const transports = new Map<string, StreamableHTTPServerTransport>();
+      // Bearer token protection of /mcp, if configured
+      const auth = createHttpAuthMiddleware(config.transport?.auth);
+      const protect = auth ? [auth] : [];
+      const sessionApiKey = config.transport?.sessionApiKey ?? 'off';
+      if (!auth) {
+        process.stderr.write(`⚠️  HTTP auth is not configured - anyone who can reach ${httpHost}:${httpPort} can use the server\n`);
+      }
+
+      // Clusters are detected and connected once; every session gets its own McpServer on top
+      const clusters = createClusterRegistry(config);
+      clusters.get().catch((error) =>
+        process.stderr.write(
+          `Failed to connect to the default cluster (retried on the first session): ${
+            error instanceof Error ? error.message : String(error)
+          }\n`
+        )
+      );
+
+      // Sessions expire when idle and are evicted when the limit is reached
+      const sessions = new SessionManager(
+        parseDurationMs(config.transport?.sessionIdleTimeout ?? '30m'),
+        config.transport?.maxSessions ?? 100
+      );
+
+      const requestApiKey = (req: express.Request): string | undefined => {
+        const value = req.headers[SESSION_API_KEY_HEADER];
+        return sessionApiKey !== 'off' && typeof value === 'string' && value.length > 0 ? value : undefined;
+      };
+
+      const rejectRequest = (res: express.Response, status: number, message: string) => {
+        res.status(status).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message,
+          },
+          id: null,
+        });
+      };
+
+      // Find the session of a request, rejecting unknown sessions and other credentials
+      const requestSession = (req: express.Request, res: express.Response): McpSession | undefined => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        const session = sessionId ? sessions.get(sessionId) : undefined;
+        if (!session) {
+          rejectRequest(res, sessionId ? 404 : 400, sessionId ? 'Session not found or expired' : 'Missing session ID');
+          return undefined;
+        }
+        if (session.owner !== sessionOwner(req.auth, requestApiKey(req))) {
+          rejectRequest(res, 403, 'Session belongs to other credentials');
+          return undefined;
+        }
+        return session;
+      };
+
+      // Prometheus metrics of every session's tool calls, behind the same auth as /mcp
+      const metricsEnabled = config.transport?.metrics ?? true;
+      if (metricsEnabled) {
+        enableMetrics();
+        metrics.gauge('elasticsearch_mcp_active_sessions', 'Open HTTP sessions', () => sessions.size);
+        app.get('/metrics', ...protect, (req, res) => {
+          res.type('text/plain; version=0.0.4').send(metrics.render());
+        });
+      }
 
-      // Health check endpoint
+      // Health check endpoint; cluster details are only shown when the server is not protected
       app.get('/health', (req, res) => {
         res.json({ 
-          status: 'ok', 
+          status: sessions.isDraining() ? 'draining' : 'ok', 
           transport: 'streamable-http',
-          elasticsearch_url: config.url
+          sessions: sessions.size,
+          ...(!auth && {
+            elasticsearch_url: config.cloudId ? resolveNodeUrl(config) : config.url,
+            ...(config.clusters && { clusters: Object.keys(config.clusters) }),
+          }),
         });
       });
 
       // MCP endpoint - POST for JSON-RPC requests
-      app.post('/mcp', async (req, res) => {
-        const sessionId = req.headers['mcp-session-id'] as string | undefined;
-        
+      app.post('/mcp', ...protect, async (req, res) => {
         try {
-          let transport: StreamableHTTPServerTransport;
-
-          // Check if we have an existing session
-          if (sessionId && transports.has(sessionId)) {
-            transport = transports.get(sessionId)!;
-          } else {
-            // Create new transport for new session
-            transport = new StreamableHTTPServerTransport({
-              sessionIdGenerator: () => randomUUID(),
-              onsessioninitialized: async (newSessionId: string) => {
-                transports.set(newSessionId, transport);
-                process.stderr.write(`New MCP session initialized: ${newSessionId}\n`);
-              },
-              onsessionclosed: async (closedSessionId: string) => {
-                transports.delete(closedSessionId);
-                process.stderr.write(`MCP session closed: ${closedSessionId}\n`);
-              }
-            });
+          // Requests with a session ID belong to an existing session
+          if (req.headers['mcp-session-id']) {
+            const session = requestSession(req, res);
+            if (session) {
+              await session.transport.handleRequest(req, res, req.body);
+            }
+            return;
+          }
 
-            // Create server for this transport
-            const server = await createElasticsearchMcpServer(config);
-            await server.connect(transport);
+          if (sessions.isDraining()) {
+            rejectRequest(res, 503, 'Server is shutting down');
+            return;
+          }
+
+          // Only an initialize request opens a session; reject anything else before building a server for it
+          if (!isInitializeRequest(req.body)) {
+            rejectRequest(res, 400, 'Bad Request: No valid session ID provided');
+            return;
+          }
+
+          const apiKey = requestApiKey(req);
+          if (sessionApiKey === 'required' && !apiKey) {
+            rejectRequest(res, 401, `Missing ${SESSION_API_KEY_HEADER} header with an Elasticsearch API key`);
+            return;
           }
 
+          // A session with its own API key gets its own clients
+          const sessionSettings = apiKey ? sessionConfig(config, apiKey) : config;
+          const ownClusters = apiKey ? createClusterRegistry(sessionSettings) : undefined;
+          const owner = sessionOwner(req.auth, apiKey);
+
+          let server: McpServer;
+          try {
+            server = await createElasticsearchMcpServer(sessionSettings, ownClusters ?? clusters);
+          } catch (error) {
+            await ownClusters?.close();
+            throw error;
+          }
+
+          // Create new transport for new session
+          const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => randomUUID(),
+            onsessioninitialized: async (newSessionId: string) => {
+              await sessions.add({
+                id: newSessionId,
+                transport,
+                server,
+                owner,
+                clusters: ownClusters,
+                cleanup: () => releaseServerResources(server),
+              });
+              process.stderr.write(`New MCP session initialized: ${newSessionId}${apiKey ? ' (own API key)' : ''}\n`);
+            },
+            onsessionclosed: async (closedSessionId: string) => {
+              await sessions.close(closedSessionId, 'deleted by client');
+            }
+          });
+
+          // Nothing to keep until the session initializes: its manager releases it from then on
+          const discard = async () => {
+            await releaseServerResources(server);
+            await server.close();
+            await ownClusters?.close();
+          };
+
           // Handle the request
-          await transport.handleRequest(req, res, req.body);
+          try {
+            await server.connect(transport);
+            await transport.handleRequest(req, res, req.body);
+          } catch (error) {
+            if (!transport.sessionId) {
+              await discard();
+            }
+            throw error;
+          }
+
+          // A failed initialize request
+          if (!transport.sessionId) {
+            await discard();
+          }
         } catch (error) {
           process.stderr.write(`Error handling MCP request: ${error}\n`);
           if (!res.headersSent) {
@@ -92,24 +230,15 @@ async function main() {
       });
 
       // MCP endpoint - GET for SSE streams
-      app.get('/mcp', async (req, res) => {
-        const sessionId = req.headers['mcp-session-id'] as string | undefined;
-        
-        if (!sessionId || !transports.has(sessionId)) {
-          res.status(400).json({
-            jsonrpc: '2.0',
-            error: {
-              code: -32000,
-              message: 'Invalid or missing session ID',
-            },
-            id: null,
-          });
+      app.get('/mcp', ...protect, async (req, res) => {
+        const session = requestSession(req, res);
+        if (!session) {
           return;
         }
 
         try {
-          const transport = transports.get(sessionId)!;
-          await transport.handleRequest(req, res);
+          sessions.trackStream(session, res);
+          await session.transport.handleRequest(req, res);
         } catch (error) {
           process.stderr.write(`Error handling SSE stream: ${error}\n`);
           if (!res.headersSent) {
@@ -125,23 +254,66 @@ async function main() {
         }
       });
 
+      // MCP endpoint - DELETE to terminate a session
+      app.delete('/mcp', ...protect, async (req, res) => {
+        const session = requestSession(req, res);
+        if (!session) {
+          return;
+        }
+
+        try {
+          // The transport answers the request and reports the close through onsessionclosed
+          await session.transport.handleRequest(req, res);
+        } catch (error) {
+          process.stderr.write(`Error terminating MCP session: ${error}\n`);
+          if (!res.headersSent) {
+            res.status(500).json({
+              jsonrpc: '2.0',
+              error: {
+                code: -32603,
+                message: 'Failed to terminate session',
+              },
+              id: null,
+            });
+          }
+        }
+      });
+
       // Start HTTP server
-      app.listen(httpPort, httpHost, () => {
+      const httpServer = app.listen(httpPort, httpHost, () => {
         console.error(`\n✓ Elasticsearch MCP Server (HTTP Streamable Mode) is running`);
         console.error(`  Endpoint: http://${httpHost}:${httpPort}/mcp`);
         console.error(`  Health: http://${httpHost}:${httpPort}/health`);
+        if (metricsEnabled) {
+          console.error(`  Metrics: http://${httpHost}:${httpPort}/metrics`);
+        }
         console.error(`  Transport: Streamable HTTP`);
-        console.error(`  Elasticsearch URL: ${config.url}\n`);
+        console.error(`  Auth: ${auth ? 'bearer token' : 'none'}${sessionApiKey !== 'off' ? `, per-session API key (${sessionApiKey})` : ''}`);
+        console.error(
+          config.clusters
+            ? `  Elasticsearch clusters: ${Object.keys(config.clusters).join(", ")}\n`
+            : `  Elasticsearch URL: ${config.cloudId ? resolveNodeUrl(config) : config.url}\n`
+        );
       });
 
-      // Handle process termination
-      process.on("SIGINT", async () => {
-        console.error("\nShutting down server...");
-        for (const [sessionId, transport] of transports.entries()) {
-          await transport.close();
+      // Handle process termination: stop accepting requests, close every session, then exit
+      const shutdown = async (signal: string) => {
+        if (sessions.isDraining()) {
+          return;
         }
+        console.error(`\n${signal} received - draining ${sessions.size} session(s)...`);
+
+        // Exit even if something hangs while draining
+        setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+
+        httpServer.close();
+        await sessions.drain();
+        await clusters.close();
+        httpServer.closeAllConnections();
         process.exit(0);
-      });
+      };
+      process.on("SIGINT", () => void shutdown("SIGINT"));
+      process.on("SIGTERM", () => void shutdown("SIGTERM"));
 
     } else {
       // Stdio Mode (Default) - Use Stdio Transport
@@ -153,10 +325,13 @@ async function main() {
       await server.connect(transport);
 
       // Handle process termination
-      process.on("SIGINT", async () => {
+      const shutdown = async () => {
+        await releaseServerResources(server);
         await server.close();
         process.exit(0);
-      });
+      };
+      process.on("SIGINT", () => void shutdown());
+      process.on("SIGTERM", () => void shutdown());
     }
     
   } catch (error) {
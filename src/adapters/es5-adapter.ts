@@ -43,15 +43,21 @@ export class ES5Adapter {
         // ES 5.x structure: { index: { mappings: { type: { properties: {...} } } } }
         
         if (data.mappings) {
-          const mappingKeys = Object.keys(data.mappings);
+          // _default_ is a template for new types, not a type holding documents
+          const mappingKeys = Object.keys(data.mappings).filter(type => type !== '_default_');
           
           if (mappingKeys.length > 0) {
             // ES 5.x always has types
             const firstType = mappingKeys[0];
+            const typeMappings: Record<string, any> = {};
+            for (const type of mappingKeys) {
+              typeMappings[type] = data.mappings[type] || {};
+            }
             normalized[indexName] = {
               mappings: data.mappings[firstType] || {},
               _es5_type: firstType,
               _es5_all_types: mappingKeys,
+              _es5_type_mappings: typeMappings, // Mappings of every type, for multi-type indices
               _note: 'ES 5.x always uses mapping types',
             };
           } else {
@@ -75,7 +81,14 @@ export class ES5Adapter {
 
     // ES 5.x works better with explicit types
     // If no type specified, we can search across all types (but slower)
-    
+
+    // track_total_hits was added in ES 7.0; ES 5.x always counts hits exactly
+    delete prepared.track_total_hits;
+    if (prepared.body && typeof prepared.body === 'object' && 'track_total_hits' in prepared.body) {
+      prepared.body = { ...prepared.body };
+      delete prepared.body.track_total_hits;
+    }
+
     return prepared;
   }
 
@@ -83,10 +96,14 @@ export class ES5Adapter {
    * Normalize search response for ES 5.x
    */
   static normalizeSearchResponse(response: any): any {
+    const total = response.hits?.total;
+
     return {
       ...response,
       hits: {
         ...response.hits,
+        // ES 5.x returns the total as a number, ES 7+ as { value, relation }
+        ...(typeof total === 'number' && { total: { value: total, relation: 'eq' } }),
         hits: (response.hits?.hits || []).map((hit: any) => ({
           ...hit,
           // ES 5.x always includes _type
@@ -96,6 +113,33 @@ export class ES5Adapter {
     };
   }
 
+  /**
+   * Prepare a raw request path for ES 5.x
+   * ES 5.x has no _doc endpoints: reads go through the _all type,
+   * and _doc in front of an endpoint (e.g. _doc/_search) is dropped
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    const segments = path.split('/');
+    const start = segments[0] === '' ? 1 : 0;
+    const prefix = segments.slice(0, start);
+    const [index, type, id, endpoint] = segments.slice(start);
+
+    if (!index || index.startsWith('_') || type !== '_doc' || !id) {
+      return path;
+    }
+
+    if (id.startsWith('_')) {
+      return [...prefix, index, ...segments.slice(start + 2)].join('/');
+    }
+
+    const isRead = ['GET', 'HEAD'].includes(method.toUpperCase());
+    if (isRead && (endpoint === undefined || endpoint === '_source')) {
+      return [...prefix, index, '_all', ...segments.slice(start + 2)].join('/');
+    }
+
+    return path;
+  }
+
   /**
    * Get cat API headers for ES 5.x
    * ES 5.x uses different field names
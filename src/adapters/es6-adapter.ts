@@ -36,7 +36,8 @@ export class ES6Adapter {
         
         if (data.mappings) {
           // Check if this is ES 6.x format (has types)
-          const mappingKeys = Object.keys(data.mappings);
+          // _default_ is a template for new types, not a type holding documents
+          const mappingKeys = Object.keys(data.mappings).filter(type => type !== '_default_');
           const hasTypes = mappingKeys.length > 0 && 
                           !mappingKeys.includes('properties') &&
                           typeof data.mappings[mappingKeys[0]] === 'object';
@@ -44,10 +45,15 @@ export class ES6Adapter {
           if (hasTypes) {
             // ES 6.x: Extract first type's mappings (most common pattern)
             const firstType = mappingKeys[0];
+            const typeMappings: Record<string, any> = {};
+            for (const type of mappingKeys) {
+              typeMappings[type] = data.mappings[type] || {};
+            }
             normalized[indexName] = {
               mappings: data.mappings[firstType] || {},
               _es6_type: firstType, // Preserve type info
               _es6_all_types: mappingKeys, // All types found
+              _es6_type_mappings: typeMappings, // Indices created in 5.x may have several types
             };
           } else {
             // Already in ES 7+ format or empty
@@ -73,6 +79,13 @@ export class ES6Adapter {
     // We'll use '_doc' as the default type if not specified
     // Note: This is optional in ES 6.x
 
+    // track_total_hits was added in ES 7.0; ES 6.x always counts hits exactly
+    delete prepared.track_total_hits;
+    if (prepared.body && typeof prepared.body === 'object' && 'track_total_hits' in prepared.body) {
+      prepared.body = { ...prepared.body };
+      delete prepared.body.track_total_hits;
+    }
+
     return prepared;
   }
 
@@ -83,10 +96,14 @@ export class ES6Adapter {
   static normalizeSearchResponse(response: any): any {
     // ES 6.x search responses are mostly compatible with ES 7+
     // Just ensure consistent structure
+    const total = response.hits?.total;
+
     return {
       ...response,
       hits: {
         ...response.hits,
+        // ES 6.x returns the total as a number, ES 7+ as { value, relation }
+        ...(typeof total === 'number' && { total: { value: total, relation: 'eq' } }),
         hits: (response.hits?.hits || []).map((hit: any) => ({
           ...hit,
           // Preserve _type for reference (exists in ES 6, not in ES 7+)
@@ -96,6 +113,41 @@ export class ES6Adapter {
     };
   }
 
+  /**
+   * Prepare a raw request path for ES 6.x
+   * Typeless endpoints (_update/{id}, _create/{id}) arrived in ES 7.0, and _doc
+   * only matches indices whose single type is named _doc, so reads use _all
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    const segments = path.split('/');
+    const start = segments[0] === '' ? 1 : 0;
+    const prefix = segments.slice(0, start);
+    const [index, type, id, endpoint] = segments.slice(start);
+
+    if (!index || index.startsWith('_') || !type || !id) {
+      return path;
+    }
+
+    if (type === '_update' || type === '_create') {
+      return [...prefix, index, '_doc', id, type, ...segments.slice(start + 3)].join('/');
+    }
+
+    if (type !== '_doc') {
+      return path;
+    }
+
+    if (id.startsWith('_')) {
+      return [...prefix, index, ...segments.slice(start + 2)].join('/');
+    }
+
+    const isRead = ['GET', 'HEAD'].includes(method.toUpperCase());
+    if (isRead && (endpoint === undefined || endpoint === '_source')) {
+      return [...prefix, index, '_all', ...segments.slice(start + 2)].join('/');
+    }
+
+    return path;
+  }
+
   /**
    * Check if index uses multiple types (ES 6.x specific)
    */
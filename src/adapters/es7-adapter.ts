@@ -2,6 +2,8 @@
  * ES 7.x Adapter - Handle ES 7 specific API differences
  */
 
+import { rewriteTypedDocPath } from './typeless-path.js';
+
 export class ES7Adapter {
   /**
    * Normalize cat.indices response for ES 7.x
@@ -67,6 +69,14 @@ export class ES7Adapter {
     };
   }
 
+  /**
+   * Prepare a raw request path for ES 7.x
+   * Rewrites typed _doc paths to the typeless endpoints (typed forms are deprecated in ES 7)
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    return rewriteTypedDocPath(path);
+  }
+
   /**
    * Get compatibility warnings for ES 7.x based on minor version
    */
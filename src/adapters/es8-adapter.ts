@@ -2,6 +2,8 @@
  * ES 8.x Adapter - Handle ES 8 specific features and optimizations
  */
 
+import { rewriteTypedDocPath } from './typeless-path.js';
+
 export class ES8Adapter {
   /**
    * Normalize cat.indices response for ES 8.x
@@ -51,6 +53,14 @@ export class ES8Adapter {
     return response;
   }
 
+  /**
+   * Prepare a raw request path for ES 8.x
+   * Rewrites typed _doc paths to the typeless endpoints (typed forms were removed in ES 8)
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    return rewriteTypedDocPath(path);
+  }
+
   /**
    * Get ES 8 specific features
    */
@@ -3,6 +3,8 @@
  * Note: ES 9 features based on expected evolution from ES 8.x
  */
 
+import { rewriteTypedDocPath } from './typeless-path.js';
+
 export class ES9Adapter {
   /**
    * Normalize cat.indices response for ES 9.x
@@ -51,6 +53,14 @@ export class ES9Adapter {
     return response;
   }
 
+  /**
+   * Prepare a raw request path for ES 9.x
+   * Rewrites typed _doc paths to the typeless endpoints (typed forms were removed in ES 8)
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    return rewriteTypedDocPath(path);
+  }
+
   /**
    * Get ES 9 specific new features
    */
@@ -0,0 +1,224 @@
+/**
+ * OpenSearch Adapter - Handle OpenSearch 1.x/2.x/3.x specific API differences
+ * OpenSearch forked from Elasticsearch 7.10.2, so the core APIs match ES 7.10;
+ * lifecycle management (ISM) and SQL/PPL live under _plugins endpoints
+ */
+
+import { rewriteTypedDocPath } from './typeless-path.js';
+
+export class OpenSearchAdapter {
+  /**
+   * Normalize cat.indices response for OpenSearch
+   * OpenSearch uses the ES 7 dot notation
+   */
+  static normalizeCatIndices(response: any[] | any): any[] {
+    // Handle both array and object responses
+    const indices = Array.isArray(response) ? response : (response.body || []);
+
+    return indices.map((index: any) => ({
+      ...index,
+      'docs.count': index['docs.count'] || '0',
+      'store.size': index['store.size'] || '0b',
+      'pri.store.size': index['pri.store.size'] || '0b',
+    }));
+  }
+
+  /**
+   * Normalize mappings response for OpenSearch
+   * OpenSearch has no mapping types: { index: { mappings: { properties: {...} } } }
+   */
+  static normalizeMappings(response: any): any {
+    return response;
+  }
+
+  /**
+   * Prepare search request for OpenSearch
+   * The 'type' parameter is not supported
+   */
+  static prepareSearchRequest(params: any): any {
+    const prepared = { ...params };
+
+    if (prepared.type) {
+      delete prepared.type;
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Normalize search response for OpenSearch
+   * Response format matches ES 7.x ({ total: { value, relation } })
+   */
+  static normalizeSearchResponse(response: any): any {
+    return response;
+  }
+
+  /**
+   * Prepare a raw request path for OpenSearch
+   * Rewrites typed _doc paths to the typeless endpoints (typed forms were removed in OpenSearch 2.0)
+   */
+  static prepareRequestPath(method: string, path: string): string {
+    return rewriteTypedDocPath(path);
+  }
+
+  /**
+   * Prepare index creation parameters for OpenSearch
+   * Unwraps mappings accidentally wrapped in a type
+   */
+  static prepareIndexSettings(settings: any): any {
+    const prepared = { ...settings };
+
+    if (prepared.mappings) {
+      const keys = Object.keys(prepared.mappings);
+      if (keys.length === 1 && !keys.includes('properties') && typeof prepared.mappings[keys[0]] === 'object') {
+        const possibleType = keys[0];
+        if (prepared.mappings[possibleType].properties) {
+          prepared.mappings = prepared.mappings[possibleType];
+        }
+      }
+    }
+
+    return prepared;
+  }
+
+  /**
+   * Convert an ISM explain response (_plugins/_ism/explain) to the _ilm/explain shape
+   * ISM states map to ILM phases; a failed action is reported as the ERROR step
+   */
+  static normalizeIsmExplain(response: any): any {
+    const indices: Record<string, any> = {};
+
+    for (const [index, entry] of Object.entries<any>(response || {})) {
+      // Skip totals such as total_managed_indices
+      if (!entry || typeof entry !== 'object') continue;
+
+      const policy = entry.policy_id ?? entry['index.plugins.index_state_management.policy_id'] ??
+        entry['index.opendistro.index_state_management.policy_id'];
+
+      if (!policy) {
+        indices[index] = { index, managed: false };
+        continue;
+      }
+
+      const failed = !!(entry.action?.failed || entry.retry_info?.failed);
+      const stepName = entry.step?.name ?? entry.action?.name;
+
+      indices[index] = {
+        index,
+        managed: true,
+        policy,
+        phase: entry.state?.name,
+        action: entry.action?.name,
+        step: failed ? 'ERROR' : stepName,
+        phase_time_millis: entry.state?.start_time,
+        step_time_millis: entry.step?.start_time ?? entry.action?.start_time,
+        failed_step: failed ? stepName : undefined,
+        step_info: entry.info && Object.keys(entry.info).length > 0
+          ? entry.info.cause
+            ? { type: entry.info.message || 'failure', reason: entry.info.cause }
+            : { message: entry.info.message }
+          : undefined,
+        failed_step_retry_count: entry.action?.consumed_retries ?? entry.retry_info?.consumed_retries,
+      };
+    }
+
+    return { indices };
+  }
+
+  /**
+   * Convert an ISM policies response (_plugins/_ism/policies) to the _ilm/policy shape
+   * Each state becomes a phase; its min_age is the condition on the transition into it
+   */
+  static normalizeIsmPolicies(response: any): Record<string, any> {
+    const policies: Record<string, any> = {};
+
+    for (const item of response?.policies || []) {
+      const policy = item.policy || {};
+      const name = item._id || policy.policy_id;
+      if (!name) continue;
+
+      const states: any[] = policy.states || [];
+      const minAges = new Map<string, string>();
+      for (const state of states) {
+        for (const transition of state.transitions || []) {
+          const minAge = transition.conditions?.min_index_age;
+          if (transition.state_name && minAge && !minAges.has(transition.state_name)) {
+            minAges.set(transition.state_name, minAge);
+          }
+        }
+      }
+
+      const phases: Record<string, any> = {};
+      for (const state of states) {
+        const actions: Record<string, any> = {};
+        for (const action of state.actions || []) {
+          // Each action object holds one action name next to optional retry/timeout settings
+          const actionName = Object.keys(action).find(key => key !== 'retry' && key !== 'timeout');
+          if (!actionName) continue;
+          actions[actionName] = action[actionName] || {};
+        }
+        phases[state.name] = {
+          ...(minAges.has(state.name) && { min_age: minAges.get(state.name) }),
+          actions,
+        };
+      }
+
+      policies[name] = { policy: { phases, default_state: policy.default_state } };
+    }
+
+    return policies;
+  }
+
+  /**
+   * Convert an SQL/PPL plugin response to the ES _sql shape: { columns, rows, cursor }
+   * The plugins answer in the JDBC format: { schema, datarows, total, size }
+   */
+  static normalizeSqlResponse(response: any): any {
+    if (!response || typeof response !== 'object' || !Array.isArray(response.datarows)) {
+      return response;
+    }
+
+    return {
+      // Cursor pages carry rows without the schema
+      ...(Array.isArray(response.schema) && {
+        columns: response.schema.map((column: any) => ({ name: column.alias || column.name, type: column.type })),
+      }),
+      rows: response.datarows,
+      ...(response.cursor && { cursor: response.cursor }),
+      ...(typeof response.total === 'number' && { total: response.total }),
+    };
+  }
+
+  /**
+   * Get compatibility warnings for OpenSearch
+   */
+  static getCompatibilityWarnings(version: { major: number; minor: number }): string[] {
+    const warnings: string[] = [
+      'OpenSearch uses ISM (_plugins/_ism) instead of ILM - ilm_status is replaced by ism_status',
+      'Elasticsearch features added after 7.10 (runtime fields, _pit) are not available',
+      'paginate_search uses scroll, as the OpenSearch point in time API differs from Elasticsearch _pit',
+    ];
+
+    if (version.major === 1) {
+      warnings.push('OpenSearch 1.x is end of life - no further security updates');
+    }
+
+    return warnings;
+  }
+
+  /**
+   * Get OpenSearch specific recommendations
+   */
+  static getRecommendations(version: { major: number; minor: number }): string[] {
+    const recommendations: string[] = [
+      'Use ISM policies for rollover, retention and tier moves',
+      'SQL and PPL plugin endpoints are available for ad-hoc analysis',
+    ];
+
+    if (version.major === 1) {
+      recommendations.push('Plan an upgrade to OpenSearch 2.x for continued support');
+    }
+
+    return recommendations;
+  }
+}
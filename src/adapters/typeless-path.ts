@@ -0,0 +1,30 @@
+/**
+ * Typeless Path - Shared _doc path rewrite for the typeless adapters
+ */
+
+/**
+ * Rewrite typed _doc paths to the typeless endpoints
+ * Used by the ES 7+ and OpenSearch adapters, which no longer accept typed forms
+ */
+export function rewriteTypedDocPath(path: string): string {
+  const segments = path.split('/');
+  const start = segments[0] === '' ? 1 : 0;
+  const prefix = segments.slice(0, start);
+  const [index, type, id, endpoint] = segments.slice(start);
+
+  if (!index || index.startsWith('_') || type !== '_doc' || !id) {
+    return path;
+  }
+
+  // _doc/_search -> _search
+  if (id.startsWith('_')) {
+    return [...prefix, index, ...segments.slice(start + 2)].join('/');
+  }
+
+  // _doc/{id}/_update -> _update/{id}
+  if (endpoint === '_update' || endpoint === '_create') {
+    return [...prefix, index, endpoint, id, ...segments.slice(start + 4)].join('/');
+  }
+
+  return path;
+}
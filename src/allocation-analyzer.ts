@@ -0,0 +1,359 @@
+/**
+ * Allocation Analyzer - Explain why shards are unassigned or stuck
+ * Reads _cluster/allocation/explain responses, groups the node deciders'
+ * verdicts by cause and maps each cause to a concrete fix
+ */
+
+import type { ShardInfo } from './shard-analyzer.js';
+
+export interface AllocationTarget {
+  index: string;
+  shard: number;
+  primary: boolean;
+  state: string;
+  node?: string;
+}
+
+export type DeciderCategory =
+  | 'disk_watermark'
+  | 'awareness'
+  | 'filter'
+  | 'max_retries'
+  | 'same_node'
+  | 'allocation_disabled'
+  | 'shards_per_node'
+  | 'data_tier'
+  | 'node_version'
+  | 'throttled'
+  | 'primary_not_active'
+  | 'no_valid_shard_copy'
+  | 'other';
+
+export interface DeciderGroup {
+  category: DeciderCategory;
+  deciders: string[];
+  nodes: string[];
+  sample_explanation: string;
+}
+
+export interface ShardAllocationExplanation {
+  target: AllocationTarget;
+  current_state: string;
+  can_allocate?: string;
+  allocate_explanation?: string;
+  unassigned_reason?: string;
+  unassigned_details?: string;
+  last_allocation_status?: string;
+  failed_attempts?: number;
+  node_count: number;
+  groups: DeciderGroup[];
+  error?: string;
+}
+
+export interface AllocationCause {
+  category: DeciderCategory;
+  shard_count: number;
+  sample_shards: string[];
+  sample_explanation: string;
+  fix: string;
+}
+
+const CATEGORY_LABELS: Record<DeciderCategory, string> = {
+  disk_watermark: 'Disk watermark',
+  awareness: 'Allocation awareness',
+  filter: 'Allocation filter',
+  max_retries: 'Max retries exceeded',
+  same_node: 'Copy already on node',
+  allocation_disabled: 'Allocation disabled',
+  shards_per_node: 'Shards-per-node limit',
+  data_tier: 'Data tier preference',
+  node_version: 'Node version',
+  throttled: 'Recovery throttled',
+  primary_not_active: 'Primary not active',
+  no_valid_shard_copy: 'No valid shard copy',
+  other: 'Other decider',
+};
+
+const CATEGORY_FIXES: Record<DeciderCategory, string> = {
+  disk_watermark:
+    'Free disk space or add data nodes; check GET _cat/allocation?v. As a stopgap raise ' +
+    'cluster.routing.allocation.disk.watermark.low/high via PUT _cluster/settings',
+  awareness:
+    'Add nodes in the missing awareness zone or lower index.number_of_replicas so every copy fits ' +
+    'the configured cluster.routing.allocation.awareness.attributes',
+  filter:
+    'Check index.routing.allocation.include/exclude/require.* in GET <index>/_settings and ' +
+    'cluster.routing.allocation.* in GET _cluster/settings; remove filters that match no node',
+  max_retries:
+    'Fix the cause of the failed attempts (see unassigned details), then retry with POST _cluster/reroute?retry_failed=true',
+  same_node:
+    'Add data nodes or lower index.number_of_replicas: a node cannot hold two copies of the same shard',
+  allocation_disabled:
+    'Re-enable allocation: PUT _cluster/settings {"persistent": {"cluster.routing.allocation.enable": "all"}}',
+  shards_per_node:
+    'Raise or remove index.routing.allocation.total_shards_per_node (or cluster.max_shards_per_node), or add nodes',
+  data_tier:
+    'Add nodes with the required data tier role or change index.routing.allocation.include._tier_preference',
+  node_version:
+    'Finish the rolling upgrade: replicas cannot be allocated to nodes older than the node holding the primary',
+  throttled:
+    'Recoveries are queued; wait, or raise cluster.routing.allocation.node_concurrent_recoveries',
+  primary_not_active:
+    'Replicas wait for their primary; resolve the primary shard first',
+  no_valid_shard_copy:
+    'All copies of this primary are lost: bring back the node that held it, restore the index from a snapshot, ' +
+    'or as a last resort POST _cluster/reroute with allocate_stale_primary / allocate_empty_primary (data loss)',
+  other:
+    'Review the decider explanation; GET _cluster/allocation/explain with include_yes_decisions=true shows every decider',
+};
+
+/**
+ * Map a decider name to a cause category
+ */
+export function categorizeDecider(decider: string): DeciderCategory {
+  switch (decider) {
+    case 'disk_threshold':
+      return 'disk_watermark';
+    case 'awareness':
+      return 'awareness';
+    case 'filter':
+      return 'filter';
+    case 'max_retry':
+      return 'max_retries';
+    case 'same_shard':
+      return 'same_node';
+    case 'enable':
+      return 'allocation_disabled';
+    case 'shards_limit':
+      return 'shards_per_node';
+    case 'data_tier':
+      return 'data_tier';
+    case 'node_version':
+      return 'node_version';
+    case 'throttling':
+      return 'throttled';
+    case 'replica_after_primary_active':
+      return 'primary_not_active';
+    default:
+      return 'other';
+  }
+}
+
+/**
+ * Pick unassigned, initializing and relocating shards to explain
+ * Primaries come first since an unassigned primary makes the index unavailable
+ */
+export function selectAllocationTargets(
+  shards: ShardInfo[],
+  limit: number,
+  includeMoving: boolean = true
+): AllocationTarget[] {
+  const wanted = includeMoving ? ['UNASSIGNED', 'INITIALIZING', 'RELOCATING'] : ['UNASSIGNED'];
+  const seen = new Set<string>();
+  const targets: AllocationTarget[] = [];
+
+  const candidates = shards
+    .filter(shard => shard.index && shard.shard && wanted.includes((shard.state || '').toUpperCase()))
+    .sort((a, b) => {
+      const stateOrder = wanted.indexOf((a.state || '').toUpperCase()) - wanted.indexOf((b.state || '').toUpperCase());
+      if (stateOrder !== 0) return stateOrder;
+      return (a.prirep === 'p' ? 0 : 1) - (b.prirep === 'p' ? 0 : 1);
+    });
+
+  for (const shard of candidates) {
+    // Unassigned replicas of the same shard share one explanation
+    const key = `${shard.index}/${shard.shard}/${shard.prirep}/${shard.state}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    targets.push({
+      index: shard.index!,
+      shard: parseInt(shard.shard!, 10),
+      primary: shard.prirep === 'p',
+      state: (shard.state || '').toUpperCase(),
+      node: shard.node || undefined,
+    });
+
+    if (targets.length >= limit) break;
+  }
+
+  return targets;
+}
+
+function addToGroup(
+  groups: Map<DeciderCategory, DeciderGroup>,
+  decider: string,
+  node: string,
+  explanation: string
+): void {
+  const category = categorizeDecider(decider);
+  if (!groups.has(category)) {
+    groups.set(category, { category, deciders: [], nodes: [], sample_explanation: explanation });
+  }
+
+  const group = groups.get(category)!;
+  if (!group.deciders.includes(decider)) group.deciders.push(decider);
+  if (node && !group.nodes.includes(node)) group.nodes.push(node);
+}
+
+/**
+ * Parse an allocation explain response
+ * Handles the ES 5.2+ format (node_allocation_decisions) and the ES 5.0/5.1 format (nodes map)
+ */
+export function analyzeAllocationExplanation(
+  target: AllocationTarget,
+  response: any
+): ShardAllocationExplanation {
+  const groups = new Map<DeciderCategory, DeciderGroup>();
+  let nodeCount = 0;
+
+  const collect = (node: string, deciders: any[]) => {
+    for (const decider of deciders || []) {
+      const decision = String(decider.decision || '').toUpperCase();
+      if (decision === 'NO' || decision === 'THROTTLE' || decision === 'THROTTLED') {
+        addToGroup(groups, decider.decider || 'unknown', node, decider.explanation || '');
+      }
+    }
+  };
+
+  if (Array.isArray(response?.node_allocation_decisions)) {
+    for (const node of response.node_allocation_decisions) {
+      nodeCount++;
+      collect(node.node_name || node.node_id, node.deciders);
+    }
+  } else if (response?.nodes && typeof response.nodes === 'object') {
+    for (const [nodeId, node] of Object.entries<any>(response.nodes)) {
+      nodeCount++;
+      collect(node.node_name || nodeId, node.decisions);
+    }
+  }
+
+  // An assigned shard that cannot move reports its reasons under can_remain_decisions
+  if (Array.isArray(response?.can_remain_decisions)) {
+    collect(response.current_node?.name || target.node || 'current node', response.can_remain_decisions);
+  }
+
+  const canAllocate: string | undefined = response?.can_allocate || response?.final_decision?.toLowerCase?.();
+  if (canAllocate === 'no_valid_shard_copy') {
+    groups.set('no_valid_shard_copy', {
+      category: 'no_valid_shard_copy',
+      deciders: [],
+      nodes: [],
+      sample_explanation: response?.allocate_explanation || 'no copy of this shard is available on any node',
+    });
+  }
+
+  const unassigned = response?.unassigned_info;
+
+  return {
+    target,
+    current_state: response?.current_state || target.state.toLowerCase(),
+    can_allocate: canAllocate,
+    allocate_explanation: response?.allocate_explanation || response?.final_explanation,
+    unassigned_reason: unassigned?.reason,
+    unassigned_details: unassigned?.details,
+    last_allocation_status: unassigned?.last_allocation_status,
+    failed_attempts: unassigned?.failed_allocation_attempts,
+    node_count: nodeCount,
+    // Causes blocking the most nodes first
+    groups: Array.from(groups.values()).sort((a, b) => b.nodes.length - a.nodes.length),
+  };
+}
+
+/**
+ * Group causes across all explained shards
+ */
+export function summarizeAllocationCauses(explanations: ShardAllocationExplanation[]): AllocationCause[] {
+  const causes = new Map<DeciderCategory, AllocationCause>();
+
+  for (const explanation of explanations) {
+    for (const group of explanation.groups) {
+      if (!causes.has(group.category)) {
+        causes.set(group.category, {
+          category: group.category,
+          shard_count: 0,
+          sample_shards: [],
+          sample_explanation: group.sample_explanation,
+          fix: CATEGORY_FIXES[group.category],
+        });
+      }
+
+      const cause = causes.get(group.category)!;
+      cause.shard_count++;
+      if (cause.sample_shards.length < 3) {
+        cause.sample_shards.push(formatTarget(explanation.target));
+      }
+    }
+  }
+
+  return Array.from(causes.values()).sort((a, b) => b.shard_count - a.shard_count);
+}
+
+function formatTarget(target: AllocationTarget): string {
+  return `${target.index}[${target.shard}]${target.primary ? 'p' : 'r'}`;
+}
+
+function shorten(text: string, max: number = 300): string {
+  return text.length > max ? text.slice(0, max - 3) + '...' : text;
+}
+
+/**
+ * Format explanations with grouped causes and suggested fixes
+ */
+export function formatAllocationExplanations(explanations: ShardAllocationExplanation[]): string {
+  let text = `🔍 Shard Allocation Explanations (${explanations.length} shards)\n`;
+  text += `${'='.repeat(60)}\n`;
+
+  const causes = summarizeAllocationCauses(explanations);
+  if (causes.length > 0) {
+    text += `\nCauses and Fixes:\n`;
+    text += `${'─'.repeat(60)}\n`;
+    for (const cause of causes) {
+      text += `\n🔴 ${CATEGORY_LABELS[cause.category]}: ${cause.shard_count} shard(s)`;
+      text += ` (e.g. ${cause.sample_shards.join(', ')})\n`;
+      if (cause.sample_explanation) {
+        text += `   Why: ${shorten(cause.sample_explanation)}\n`;
+      }
+      text += `   Fix: ${cause.fix}\n`;
+    }
+  }
+
+  text += `\nPer Shard:\n`;
+  text += `${'─'.repeat(60)}\n`;
+
+  for (const explanation of explanations) {
+    text += `\n${formatTarget(explanation.target)} - ${explanation.current_state}\n`;
+
+    if (explanation.error) {
+      text += `  • Could not explain: ${explanation.error}\n`;
+      continue;
+    }
+
+    if (explanation.unassigned_reason) {
+      text += `  • Unassigned reason: ${explanation.unassigned_reason}`;
+      if (explanation.failed_attempts) {
+        text += ` (${explanation.failed_attempts} failed attempts)`;
+      }
+      text += `\n`;
+    }
+    if (explanation.unassigned_details) {
+      text += `  • Details: ${shorten(explanation.unassigned_details, 200)}\n`;
+    }
+    if (explanation.allocate_explanation) {
+      text += `  • Explanation: ${shorten(explanation.allocate_explanation, 200)}\n`;
+    }
+
+    if (explanation.groups.length > 0) {
+      for (const group of explanation.groups) {
+        const nodes = group.nodes.length > 0
+          ? ` on ${group.nodes.length}/${explanation.node_count || group.nodes.length} nodes`
+          : '';
+        text += `  • ${CATEGORY_LABELS[group.category]}${nodes} [${group.deciders.join(', ') || 'cluster'}]\n`;
+      }
+    } else if (!explanation.allocate_explanation) {
+      text += `  • No blocking decider reported\n`;
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,330 @@
+/**
+ * API Policy - Classify raw Elasticsearch API requests and enforce access rules
+ * Sorts each request into read, write or admin by method and path, then applies
+ * read-only mode, allow/deny lists and the destructive-operation guard
+ */
+
+export type ApiCategory = 'read' | 'write' | 'admin';
+
+export interface ApiClassification {
+  category: ApiCategory;
+  destructive: boolean;
+  reason: string;
+}
+
+export interface PolicyDecision extends ApiClassification {
+  allowed: boolean;
+  explanation?: string;
+}
+
+export interface ApiRule {
+  method: string;   // HTTP method or '*'
+  pattern: string;  // Path glob: '*' matches one segment, '**' any number
+}
+
+export interface ApiPolicyConfig {
+  readOnly: boolean;
+  allowDestructive: boolean;
+  allowlist: ApiRule[];
+  denylist: ApiRule[];
+}
+
+/**
+ * POST/DELETE endpoints that only read data (matched against the last path segments)
+ */
+const READ_ONLY_ENDPOINTS: Array<{ methods: string[]; pattern: RegExp }> = [
+  { methods: ['POST'], pattern: /(^|\/)_search(\/template)?$/ },
+  { methods: ['POST'], pattern: /(^|\/)_msearch(\/template)?$/ },
+  { methods: ['POST'], pattern: /(^|\/)_count$/ },
+  { methods: ['POST'], pattern: /(^|\/)_validate\/query$/ },
+  { methods: ['POST'], pattern: /(^|\/)_explain(\/[^/]+)?$/ },
+  { methods: ['POST'], pattern: /(^|\/)_field_caps$/ },
+  { methods: ['POST'], pattern: /(^|\/)_mget$/ },
+  { methods: ['POST'], pattern: /(^|\/)_(m)?termvectors(\/[^/]+)?$/ },
+  { methods: ['POST'], pattern: /(^|\/)_render\/template(\/[^/]+)?$/ },
+  { methods: ['POST'], pattern: /(^|\/)_rank_eval$/ },
+  { methods: ['POST'], pattern: /(^|\/)_analyze$/ },
+  { methods: ['POST'], pattern: /(^|\/)_eql\/search$/ },
+  { methods: ['POST'], pattern: /(^|\/)_async_search$/ },
+  { methods: ['POST'], pattern: /^_sql(\/translate|\/close)?$/ },
+  { methods: ['POST'], pattern: /^_xpack\/sql(\/translate|\/close)?$/ },
+  { methods: ['POST'], pattern: /^_plugins\/_(sql|ppl)(\/_explain|\/close)?$/ },
+  { methods: ['POST'], pattern: /^_query(\/async)?$/ },
+  { methods: ['POST'], pattern: /^_cluster\/allocation\/explain$/ },
+  { methods: ['POST'], pattern: /^_security\/user(\/[^/]+)?\/_has_privileges$/ },
+  { methods: ['POST', 'DELETE'], pattern: /(^|\/)_pit$/ },
+  { methods: ['POST', 'DELETE'], pattern: /^_search\/scroll(\/[^/]+)?$/ },
+  { methods: ['DELETE'], pattern: /^_async_search\/[^/]+$/ },
+];
+
+/**
+ * Path prefixes that change cluster-wide state, security or snapshots
+ */
+const ADMIN_PREFIXES = [
+  '_cluster/settings',
+  '_cluster/reroute',
+  '_cluster/voting_config_exclusions',
+  '_snapshot',
+  '_slm',
+  '_security',
+  '_license',
+  '_xpack',
+  '_nodes',
+  '_ilm',
+  '_ingest',
+  '_index_template',
+  '_component_template',
+  '_template',
+  '_ml',
+  '_transform',
+  '_watcher',
+  '_features',
+  '_ccr',
+  '_autoscaling',
+  '_shutdown',
+  '_migration',
+  '_enrich',
+  // OpenSearch plugins
+  '_plugins/_ism',
+  '_plugins/_security',
+  '_plugins/_sm',
+];
+
+/**
+ * Index-level endpoints that change how an index exists rather than its documents
+ */
+const ADMIN_INDEX_ENDPOINTS = /(^|\/)(_close|_open|_shrink|_split|_clone|_rollover|_freeze|_unfreeze|_settings|_mapping|_alias(es)?|_block|_migrate)(\/|$)/;
+
+function normalizePath(path: string): string {
+  let withoutQuery = path.split('?')[0];
+  // Elasticsearch decodes the path, so %2A and _%61ll are classified as * and _all
+  try {
+    withoutQuery = decodeURIComponent(withoutQuery);
+  } catch {
+    // Malformed escapes are classified as sent
+  }
+  return withoutQuery.replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Whether a path segment names every index or a pattern of them (e.g. '*', '_all', 'logs,_all')
+ */
+function isBroadSegment(segment: string): boolean {
+  return segment.split(',').some(part => part === '_all' || part.includes('*'));
+}
+
+/**
+ * Match a path against a glob pattern ('*' one segment, '**' any depth)
+ */
+export function matchPathPattern(pattern: string, path: string): boolean {
+  const normalizedPattern = normalizePath(pattern);
+  const regex = normalizedPattern
+    .split('**')
+    .map(part =>
+      part
+        .split('*')
+        .map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*')
+    )
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(normalizePath(path));
+}
+
+/**
+ * Parse a rule list such as "GET _cat/**, * _security/**, _cluster/health"
+ * A rule without a method applies to every method
+ */
+export function parseApiRules(value: string | undefined): ApiRule[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(rule => rule.trim())
+    .filter(rule => rule.length > 0)
+    .map(rule => {
+      const parts = rule.split(/\s+/);
+      if (parts.length >= 2) {
+        return { method: parts[0].toUpperCase(), pattern: parts.slice(1).join(' ') };
+      }
+      return { method: '*', pattern: parts[0] };
+    });
+}
+
+function matchesRule(rule: ApiRule, method: string, path: string): boolean {
+  return (rule.method === '*' || rule.method === method) && matchPathPattern(rule.pattern, path);
+}
+
+function formatRule(rule: ApiRule): string {
+  return `${rule.method} ${rule.pattern}`;
+}
+
+/**
+ * Classify a request as read, write or admin
+ * @param body The request body, for endpoints whose effect depends on it (_aliases)
+ */
+export function classifyRequest(method: string, path: string, body?: any): ApiClassification {
+  const upperMethod = method.toUpperCase();
+  const normalized = normalizePath(path);
+  const segments = normalized.split('/');
+  const target = segments[0] || '';
+
+  // An index list such as "logs,_all" targets indices even when an entry starts with an underscore
+  const indexTarget = target !== '' && (!target.startsWith('_') || target.includes(',') || target === '_all');
+
+  // Wildcard or _all targets make writes cluster-wide; on an underscore endpoint
+  // (e.g. _data_stream/logs-*, _ilm/policy/*) any later segment can be the wildcard
+  const broadTarget = indexTarget ? isBroadSegment(target) : segments.slice(1).some(isBroadSegment);
+
+  if (upperMethod === 'GET' || upperMethod === 'HEAD') {
+    return { category: 'read', destructive: false, reason: `${upperMethod} requests only read` };
+  }
+
+  for (const endpoint of READ_ONLY_ENDPOINTS) {
+    if (endpoint.methods.includes(upperMethod) && endpoint.pattern.test(normalized)) {
+      return { category: 'read', destructive: false, reason: `${upperMethod} ${normalized} is a read-only endpoint` };
+    }
+  }
+
+  for (const prefix of ADMIN_PREFIXES) {
+    if (normalized === prefix || normalized.startsWith(`${prefix}/`)) {
+      return {
+        category: 'admin',
+        // Deleting snapshots or security objects cannot be undone; wildcard deletes
+        // (templates, lifecycle policies, ...) remove everything they match
+        destructive: upperMethod === 'DELETE' &&
+          (prefix === '_snapshot' || prefix === '_security' || prefix === '_plugins/_security' || broadTarget),
+        reason: `${prefix} changes cluster, security or lifecycle configuration`,
+      };
+    }
+  }
+
+  // POST _aliases with remove_index actions deletes the indices it names
+  if (segments.length === 1 && target === '_aliases') {
+    const removesIndices = Array.isArray(body?.actions) &&
+      body.actions.some((action: any) => action !== null && typeof action === 'object' && 'remove_index' in action);
+    return {
+      category: 'admin',
+      destructive: removesIndices,
+      reason: removesIndices ? 'deletes indices through remove_index alias actions' : 'changes index aliases',
+    };
+  }
+
+  if (indexTarget && ADMIN_INDEX_ENDPOINTS.test(normalized)) {
+    return {
+      category: 'admin',
+      destructive: broadTarget,
+      reason: 'changes index settings, mappings, aliases or state',
+    };
+  }
+
+  // DELETE _data_stream/<name> removes data streams with all their backing indices
+  if (upperMethod === 'DELETE' && target === '_data_stream') {
+    return { category: 'admin', destructive: broadTarget, reason: 'deletes data streams and their backing indices' };
+  }
+
+  // DELETE /<index> removes whole indices, which cannot be undone even for a single named index
+  if (upperMethod === 'DELETE' && segments.length === 1 && indexTarget) {
+    return { category: 'admin', destructive: true, reason: 'deletes one or more indices' };
+  }
+
+  if (/(^|\/)_delete_by_query$/.test(normalized)) {
+    return { category: 'write', destructive: broadTarget, reason: 'deletes documents matching a query' };
+  }
+
+  return {
+    category: 'write',
+    destructive: broadTarget,
+    reason: `${upperMethod} ${normalized} modifies data`,
+  };
+}
+
+export class ApiPolicy {
+  constructor(private config: ApiPolicyConfig) {}
+
+  getConfig(): ApiPolicyConfig {
+    return this.config;
+  }
+
+  /**
+   * Decide whether a request may be sent to the cluster
+   */
+  evaluate(method: string, path: string, body?: any): PolicyDecision {
+    const upperMethod = method.toUpperCase();
+    const normalized = normalizePath(path);
+    const classification = classifyRequest(upperMethod, path, body);
+
+    const denied = this.config.denylist.find(rule => matchesRule(rule, upperMethod, normalized));
+    if (denied) {
+      return {
+        ...classification,
+        allowed: false,
+        explanation: `${upperMethod} ${normalized} matches denylist rule "${formatRule(denied)}".`,
+      };
+    }
+
+    if (
+      this.config.allowlist.length > 0 &&
+      !this.config.allowlist.some(rule => matchesRule(rule, upperMethod, normalized))
+    ) {
+      return {
+        ...classification,
+        allowed: false,
+        explanation:
+          `${upperMethod} ${normalized} is not on the allowlist. ` +
+          `Allowed: ${this.config.allowlist.map(formatRule).join(', ')}.`,
+      };
+    }
+
+    if (this.config.readOnly && classification.category !== 'read') {
+      return {
+        ...classification,
+        allowed: false,
+        explanation:
+          `Server is in read-only mode (MCP_READ_ONLY) and this request is classified as ${classification.category}: ` +
+          `${classification.reason}.`,
+      };
+    }
+
+    if (classification.destructive && !this.config.allowDestructive) {
+      return {
+        ...classification,
+        allowed: false,
+        explanation:
+          `Destructive operation blocked (${upperMethod} ${normalized}): ${classification.reason}` +
+          `${normalized.split('/').some(isBroadSegment) ? ' on a wildcard or _all target' : ''}. ` +
+          `Set MCP_ALLOW_DESTRUCTIVE=true to permit it.`,
+      };
+    }
+
+    return { ...classification, allowed: true };
+  }
+}
+
+/**
+ * Build the policy configuration from environment variables
+ */
+export function apiPolicyConfigFromEnv(env: NodeJS.ProcessEnv = process.env): ApiPolicyConfig {
+  return {
+    readOnly: env.MCP_READ_ONLY === 'true' || env.MCP_READ_ONLY === '1',
+    allowDestructive: env.MCP_ALLOW_DESTRUCTIVE === 'true' || env.MCP_ALLOW_DESTRUCTIVE === '1',
+    allowlist: parseApiRules(env.ES_API_ALLOWLIST),
+    denylist: parseApiRules(env.ES_API_DENYLIST),
+  };
+}
+
+/**
+ * Build the policy configuration from the apiPolicy configuration section
+ * Settings missing from the section fall back to environment variables
+ */
+export function apiPolicyConfigFromSettings(
+  settings: { readOnly?: boolean; allowDestructive?: boolean; allowlist?: string[]; denylist?: string[] } | undefined,
+  env: NodeJS.ProcessEnv = process.env
+): ApiPolicyConfig {
+  const fromEnv = apiPolicyConfigFromEnv(env);
+  return {
+    readOnly: settings?.readOnly ?? fromEnv.readOnly,
+    allowDestructive: settings?.allowDestructive ?? fromEnv.allowDestructive,
+    allowlist: settings?.allowlist ? parseApiRules(settings.allowlist.join(',')) : fromEnv.allowlist,
+    denylist: settings?.denylist ? parseApiRules(settings.denylist.join(',')) : fromEnv.denylist,
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Bulk Analyzer - Summarize _bulk responses instead of returning every item result
+ * Groups per-item failures by error type and index
+ */
+
+export interface BulkErrorGroup {
+  type: string;
+  index: string;
+  count: number;
+  sample_reason: string;
+  sample_ids: string[];
+}
+
+export interface BulkSummary {
+  took: number;
+  errors: boolean;
+  total_items: number;
+  succeeded: number;
+  failed: number;
+  by_action: Record<string, number>;
+  by_status: Record<string, number>;
+  error_groups: BulkErrorGroup[];
+}
+
+/**
+ * Check whether a path targets the _bulk API
+ */
+export function isBulkPath(path: string): boolean {
+  return /(^|\/)_bulk$/.test(path.split('?')[0].replace(/\/+$/, ''));
+}
+
+/**
+ * Summarize a _bulk response
+ */
+export function summarizeBulkResponse(response: any): BulkSummary {
+  const items: any[] = Array.isArray(response?.items) ? response.items : [];
+  const byAction: Record<string, number> = {};
+  const byStatus: Record<string, number> = {};
+  const groups = new Map<string, BulkErrorGroup>();
+  let failed = 0;
+
+  for (const item of items) {
+    // Each item is { <action>: { _index, _id, status, error? } }
+    const [action, result] = Object.entries(item || {})[0] || ['unknown', {}];
+    const detail = (result || {}) as any;
+
+    byAction[action] = (byAction[action] || 0) + 1;
+    const status = String(detail.status ?? 'unknown');
+    byStatus[status] = (byStatus[status] || 0) + 1;
+
+    if (detail.error) {
+      failed++;
+      const type = detail.error.type || 'unknown_error';
+      const index = detail._index || 'unknown';
+      const key = `${type}\u0000${index}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, {
+          type,
+          index,
+          count: 0,
+          sample_reason: detail.error.reason || '',
+          sample_ids: [],
+        });
+      }
+
+      const group = groups.get(key)!;
+      group.count++;
+      if (group.sample_ids.length < 3 && detail._id) {
+        group.sample_ids.push(detail._id);
+      }
+    }
+  }
+
+  return {
+    took: response?.took ?? 0,
+    errors: !!response?.errors,
+    total_items: items.length,
+    succeeded: items.length - failed,
+    failed,
+    by_action: byAction,
+    by_status: byStatus,
+    error_groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Format bulk summary as text
+ */
+export function formatBulkSummary(summary: BulkSummary): string {
+  const statusIcon = summary.failed === 0 ? '🟢' : summary.succeeded === 0 ? '🔴' : '🟡';
+
+  let text = `📦 Bulk Result Summary\n`;
+  text += `${'='.repeat(60)}\n\n`;
+
+  text += `Status:     ${statusIcon} ${summary.succeeded.toLocaleString()} succeeded | ${summary.failed.toLocaleString()} failed`;
+  text += ` (${summary.total_items.toLocaleString()} items, took ${summary.took}ms)\n`;
+  text += `Actions:    ${Object.entries(summary.by_action).map(([a, c]) => `${a}(${c})`).join(' ')}\n`;
+  text += `HTTP codes: ${Object.entries(summary.by_status).map(([s, c]) => `${s}(${c})`).join(' ')}\n`;
+
+  if (summary.error_groups.length > 0) {
+    text += `\nErrors by type and index:\n`;
+    text += `${'─'.repeat(60)}\n`;
+
+    for (const group of summary.error_groups.slice(0, 20)) {
+      text += `\n🔴 ${group.type} on ${group.index}: ${group.count.toLocaleString()} items\n`;
+      if (group.sample_reason) {
+        const reason = group.sample_reason.length > 300
+          ? group.sample_reason.slice(0, 297) + '...'
+          : group.sample_reason;
+        text += `   Reason: ${reason}\n`;
+      }
+      if (group.sample_ids.length > 0) {
+        text += `   Sample ids: ${group.sample_ids.join(', ')}\n`;
+      }
+    }
+
+    if (summary.error_groups.length > 20) {
+      text += `\n... and ${summary.error_groups.length - 20} more error groups\n`;
+    }
+  }
+
+  return text;
+}
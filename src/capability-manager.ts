@@ -1,17 +1,113 @@
 /**
  * Capability Manager - Determine feature availability based on ES version
+ * and, once the startup probe ran, on X-Pack, license and security state
  */
 
 import type { ESVersionInfo } from './version-detector.js';
+import type { FeatureProbeResult, ProbedFeatureName } from './feature-probe.js';
 import { ES5Adapter } from './adapters/es5-adapter.js';
 import { ES6Adapter } from './adapters/es6-adapter.js';
 import { ES7Adapter } from './adapters/es7-adapter.js';
 import { ES8Adapter } from './adapters/es8-adapter.js';
 import { ES9Adapter } from './adapters/es9-adapter.js';
+import { OpenSearchAdapter } from './adapters/opensearch-adapter.js';
+
+/**
+ * Elasticsearch version OpenSearch forked from; ES feature checks compare against it
+ */
+const OPENSEARCH_ES_BASELINE = { major: 7, minor: 10 };
+
+export interface FeatureStatus {
+  supported: boolean;
+  reason?: string;
+}
 
 export class CapabilityManager {
+  private probe: FeatureProbeResult | null = null;
+
   constructor(private version: ESVersionInfo) {}
 
+  /**
+   * Record what the feature probe found; feature checks use it from now on
+   */
+  applyProbeResult(result: FeatureProbeResult): void {
+    this.probe = result;
+  }
+
+  /**
+   * Get the latest feature probe result, if the probe ran
+   */
+  getProbeResult(): FeatureProbeResult | null {
+    return this.probe;
+  }
+
+  /**
+   * Check whether a feature is available and explain why it is not
+   * The version decides first; the probe can then turn a feature off
+   */
+  getFeatureStatus(feature: ProbedFeatureName): FeatureStatus {
+    const versionStatus = this.versionFeatureStatus(feature);
+    if (!versionStatus.supported) return versionStatus;
+
+    const probed = this.probe?.features[feature];
+    if (probed && !probed.available) {
+      return { supported: false, reason: probed.reason };
+    }
+    return { supported: true };
+  }
+
+  /**
+   * Feature availability from the version number alone
+   */
+  private versionFeatureStatus(feature: ProbedFeatureName): FeatureStatus {
+    const requires = (major: number, minor: number): FeatureStatus =>
+      this.meetsVersion(major, minor)
+        ? { supported: true }
+        : { supported: false, reason: `requires ES ${major}.${minor}+` };
+
+    switch (feature) {
+      case 'data_streams':
+        return requires(7, 9);
+
+      case 'ilm':
+        if (this.isOpenSearch()) return { supported: false, reason: 'OpenSearch uses ISM instead of ILM' };
+        return requires(6, 6);
+
+      case 'ism':
+        return this.isOpenSearch()
+          ? { supported: true }
+          : { supported: false, reason: 'ISM is an OpenSearch feature; Elasticsearch uses ILM' };
+
+      case 'sql':
+        return requires(6, 3);
+
+      case 'ppl':
+        return this.isOpenSearch()
+          ? { supported: true }
+          : { supported: false, reason: 'PPL is only available on OpenSearch' };
+
+      case 'searchable_snapshots':
+        if (this.isOpenSearch()) {
+          return this.meetsOpenSearchVersion(2, 7)
+            ? { supported: true }
+            : { supported: false, reason: 'requires OpenSearch 2.7+' };
+        }
+        return requires(7, 10);
+
+      case 'rollup':
+        if (this.isOpenSearch()) {
+          return { supported: false, reason: 'OpenSearch rollups are an ISM plugin feature with a different API' };
+        }
+        if (this.version.major >= 9 || (this.version.major === 8 && this.version.minor >= 11)) {
+          return { supported: false, reason: 'rollup jobs are deprecated since ES 8.11' };
+        }
+        return requires(6, 3);
+
+      case 'security':
+        return { supported: true };
+    }
+  }
+
   /**
    * Get version info
    */
@@ -20,9 +116,28 @@ export class CapabilityManager {
   }
 
   /**
-   * Compare version with a minimum required version
+   * Check if the cluster runs OpenSearch rather than Elasticsearch
+   */
+  isOpenSearch(): boolean {
+    return this.version.distribution === 'opensearch';
+  }
+
+  /**
+   * Compare the Elasticsearch version with a minimum required version
+   * OpenSearch is compared as the ES 7.10 it forked from
    */
   private meetsVersion(minMajor: number, minMinor: number = 0): boolean {
+    const { major, minor } = this.isOpenSearch() ? OPENSEARCH_ES_BASELINE : this.version;
+    if (major > minMajor) return true;
+    if (major < minMajor) return false;
+    return minor >= minMinor;
+  }
+
+  /**
+   * Compare the OpenSearch version with a minimum required version
+   */
+  private meetsOpenSearchVersion(minMajor: number, minMinor: number = 0): boolean {
+    if (!this.isOpenSearch()) return false;
     if (this.version.major > minMajor) return true;
     if (this.version.major < minMajor) return false;
     return this.version.minor >= minMinor;
@@ -32,18 +147,18 @@ export class CapabilityManager {
    * Feature: Data Streams (ES 7.9+)
    */
   supportsDataStreams(): boolean {
-    return this.meetsVersion(7, 9);
+    return this.getFeatureStatus('data_streams').supported;
   }
 
   /**
-   * Feature: Searchable Snapshots (ES 7.10+)
+   * Feature: Searchable Snapshots (ES 7.10+, OpenSearch 2.7+)
    */
   supportsSearchableSnapshots(): boolean {
-    return this.meetsVersion(7, 10);
+    return this.getFeatureStatus('searchable_snapshots').supported;
   }
 
   /**
-   * Feature: Runtime Fields (ES 7.11+)
+   * Feature: Runtime Fields (ES 7.11+, not in OpenSearch)
    */
   supportsRuntimeFields(): boolean {
     return this.meetsVersion(7, 11);
@@ -51,16 +166,48 @@ export class CapabilityManager {
 
   /**
    * Feature: Point in Time API (ES 7.10+)
+   * Not reported for OpenSearch: 2.4+ has its own PIT API (_search/point_in_time) with a
+   * different request shape and no _shard_doc tiebreaker, so paginate_search scrolls there
    */
   supportsPointInTime(): boolean {
+    if (this.isOpenSearch()) return false;
     return this.meetsVersion(7, 10);
   }
 
   /**
-   * Feature: SQL API (ES 6.3+)
+   * Feature: _shard_doc sort tiebreaker for point in time searches (ES 7.12+)
+   * Without it search_after may skip or repeat hits that share sort values
+   */
+  supportsShardDocSort(): boolean {
+    if (this.isOpenSearch()) return false;
+    return this.meetsVersion(7, 12);
+  }
+
+  /**
+   * Feature: SQL API (ES 6.3+, OpenSearch SQL plugin)
    */
   supportsSQL(): boolean {
-    return this.meetsVersion(6, 3);
+    return this.getFeatureStatus('sql').supported;
+  }
+
+  /**
+   * Feature: PPL (OpenSearch SQL plugin)
+   */
+  supportsPPL(): boolean {
+    return this.getFeatureStatus('ppl').supported;
+  }
+
+  /**
+   * Get the SQL or PPL endpoint
+   * _xpack/sql moved to _sql in ES 7.0; OpenSearch serves both languages from the SQL plugin
+   */
+  getSqlEndpoint(language: 'sql' | 'ppl' = 'sql'): string | null {
+    if (language === 'ppl') {
+      return this.supportsPPL() ? '/_plugins/_ppl' : null;
+    }
+    if (!this.supportsSQL()) return null;
+    if (this.isOpenSearch()) return '/_plugins/_sql';
+    return this.meetsVersion(7, 0) ? '/_sql' : '/_xpack/sql';
   }
 
   /**
@@ -70,27 +217,69 @@ export class CapabilityManager {
     return this.meetsVersion(5, 3);
   }
 
+  /**
+   * Feature: Sorting _cat output with the `s` parameter (ES 5.1+)
+   */
+  supportsCatSort(): boolean {
+    return this.meetsVersion(5, 1);
+  }
+
+  /**
+   * Feature: flood_stage disk watermark (ES 6.0+)
+   */
+  supportsFloodStageWatermark(): boolean {
+    return this.meetsVersion(6, 0);
+  }
+
+  /**
+   * Get the name of the indexing thread pool
+   * The bulk pool was renamed to write in ES 6.3
+   */
+  getWriteThreadPoolName(): string {
+    return this.meetsVersion(6, 3) ? 'write' : 'bulk';
+  }
+
+  /**
+   * Feature: Composable index templates and component templates (ES 7.8+)
+   */
+  supportsComposableTemplates(): boolean {
+    return this.meetsVersion(7, 8);
+  }
+
+  /**
+   * Feature: Simulate index template API (ES 7.9+)
+   */
+  supportsSimulateIndexTemplate(): boolean {
+    return this.meetsVersion(7, 9);
+  }
+
   /**
    * Feature: Mapping types (removed in ES 7.0)
    */
   hasMappingTypes(): boolean {
-    return this.version.major < 7;
+    return !this.meetsVersion(7, 0);
   }
 
   /**
-   * Feature: ILM (Index Lifecycle Management) (ES 6.6+)
+   * Feature: ILM (Index Lifecycle Management) (ES 6.6+, not in OpenSearch)
    */
   supportsILM(): boolean {
-    return this.meetsVersion(6, 6);
+    return this.getFeatureStatus('ilm').supported;
+  }
+
+  /**
+   * Feature: ISM (Index State Management) (OpenSearch)
+   */
+  supportsISM(): boolean {
+    return this.getFeatureStatus('ism').supported;
   }
 
   /**
    * Feature: Rollup Jobs (ES 6.3+, deprecated in 8.11)
+   * OpenSearch rollups are an ISM plugin feature with a different API
    */
   supportsRollupJobs(): boolean {
-    if (this.version.major >= 9) return false;
-    if (this.version.major === 8 && this.version.minor >= 11) return false;
-    return this.meetsVersion(6, 3);
+    return this.getFeatureStatus('rollup').supported;
   }
 
   /**
@@ -98,7 +287,7 @@ export class CapabilityManager {
    * Field names changed between versions
    */
   getCatIndicesHeaders(): string {
-    if (this.version.major < 6) {
+    if (!this.meetsVersion(6, 0)) {
       // ES 5.x uses different field names
       return 'index,health,status,docs,size';
     }
@@ -113,15 +302,33 @@ export class CapabilityManager {
     const tools: string[] = [
       'list_indices',
       'get_mappings',
+      'get_templates',
       'es_search',
+      'paginate_search',
       'execute_es_api',
       'get_shards',
+      'explain_allocation',
+      'node_stats',
+      'cluster_overview',
+      'continue_result',
     ];
 
     if (this.supportsDataStreams()) {
       tools.push('list_data_streams');
     }
 
+    if (this.supportsILM()) {
+      tools.push('ilm_status');
+    }
+
+    if (this.supportsISM()) {
+      tools.push('ism_status');
+    }
+
+    if (this.supportsSQL()) {
+      tools.push('sql_query');
+    }
+
     return tools;
   }
 
@@ -131,14 +338,33 @@ export class CapabilityManager {
   getUnsupportedTools(): Array<{ tool: string; reason: string; minVersion: string }> {
     const unsupported: Array<{ tool: string; reason: string; minVersion: string }> = [];
 
-    if (!this.supportsDataStreams()) {
+    const dataStreams = this.getFeatureStatus('data_streams');
+    if (!dataStreams.supported) {
       unsupported.push({
         tool: 'list_data_streams',
-        reason: 'Data Streams not available',
+        reason: `Data Streams not available: ${dataStreams.reason}`,
         minVersion: '7.9.0',
       });
     }
 
+    const lifecycle = this.isOpenSearch() ? this.getFeatureStatus('ism') : this.getFeatureStatus('ilm');
+    if (!lifecycle.supported) {
+      unsupported.push({
+        tool: this.isOpenSearch() ? 'ism_status' : 'ilm_status',
+        reason: `${this.isOpenSearch() ? 'Index State Management' : 'Index Lifecycle Management'} not available: ${lifecycle.reason}`,
+        minVersion: this.isOpenSearch() ? 'OpenSearch 1.0.0' : '6.6.0',
+      });
+    }
+
+    const sql = this.getFeatureStatus('sql');
+    if (!sql.supported) {
+      unsupported.push({
+        tool: 'sql_query',
+        reason: `SQL API not available: ${sql.reason}`,
+        minVersion: '6.3.0',
+      });
+    }
+
     return unsupported;
   }
 
@@ -148,6 +374,10 @@ export class CapabilityManager {
   getWarnings(): string[] {
     const warnings: string[] = [];
 
+    if (this.isOpenSearch()) {
+      return warnings;
+    }
+
     if (this.version.major === 5) {
       warnings.push('ES 5.x is EOL and may have limited support');
       warnings.push('Consider upgrading to ES 7.17 LTS or ES 8.x');
@@ -162,8 +392,9 @@ export class CapabilityManager {
       warnings.push('This ES version uses mapping types (deprecated in ES 6, removed in ES 7)');
     }
 
-    if (!this.supportsDataStreams()) {
-      warnings.push('Data Streams feature not available (requires ES 7.9+)');
+    const dataStreams = this.getFeatureStatus('data_streams');
+    if (!dataStreams.supported) {
+      warnings.push(`Data Streams feature not available (${dataStreams.reason})`);
     }
 
     return warnings;
@@ -172,8 +403,10 @@ export class CapabilityManager {
   /**
    * Get version-specific adapter
    */
-  getAdapter(): typeof ES5Adapter | typeof ES6Adapter | typeof ES7Adapter | typeof ES8Adapter | typeof ES9Adapter | null {
-    if (this.version.major === 5) {
+  getAdapter(): typeof ES5Adapter | typeof ES6Adapter | typeof ES7Adapter | typeof ES8Adapter | typeof ES9Adapter | typeof OpenSearchAdapter | null {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter;
+    } else if (this.version.major === 5) {
       return ES5Adapter;
     } else if (this.version.major === 6) {
       return ES6Adapter;
@@ -191,7 +424,9 @@ export class CapabilityManager {
    * Get version-specific recommendations
    */
   getRecommendations(): string[] {
-    if (this.version.major === 5) {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter.getRecommendations(this.version);
+    } else if (this.version.major === 5) {
       return ES5Adapter.getRecommendations(this.version);
     } else if (this.version.major === 6) {
       return ES6Adapter.getRecommendations(this.version);
@@ -209,7 +444,9 @@ export class CapabilityManager {
    * Get version-specific compatibility warnings
    */
   getVersionWarnings(): string[] {
-    if (this.version.major === 5) {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter.getCompatibilityWarnings(this.version);
+    } else if (this.version.major === 5) {
       return ES5Adapter.getCompatibilityWarnings();
     } else if (this.version.major === 6) {
       return ES6Adapter.getCompatibilityWarnings();
@@ -227,7 +464,9 @@ export class CapabilityManager {
    * Normalize cat.indices response based on version
    */
   normalizeCatIndices(response: any[]): any[] {
-    if (this.version.major === 5) {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter.normalizeCatIndices(response);
+    } else if (this.version.major === 5) {
       return ES5Adapter.normalizeCatIndices(response);
     } else if (this.version.major === 6) {
       return ES6Adapter.normalizeCatIndices(response);
@@ -245,7 +484,9 @@ export class CapabilityManager {
    * Normalize mappings response based on version
    */
   normalizeMappings(response: any): any {
-    if (this.version.major === 5) {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter.normalizeMappings(response);
+    } else if (this.version.major === 5) {
       return ES5Adapter.normalizeMappings(response);
     } else if (this.version.major === 6) {
       return ES6Adapter.normalizeMappings(response);
@@ -259,26 +500,148 @@ export class CapabilityManager {
     return response;
   }
 
+  /**
+   * Normalize an SQL or PPL response to the ES _sql shape ({ columns, rows, cursor })
+   */
+  normalizeSqlResponse(response: any): any {
+    if (this.isOpenSearch()) {
+      return OpenSearchAdapter.normalizeSqlResponse(response);
+    }
+    return response;
+  }
+
+  /**
+   * Normalize ISM explain and policies responses to the _ilm/explain and _ilm/policy shapes
+   */
+  normalizeIsmResponses(explain: any, policies: any): { explain: any; policies: Record<string, any> } {
+    return {
+      explain: OpenSearchAdapter.normalizeIsmExplain(explain),
+      policies: OpenSearchAdapter.normalizeIsmPolicies(policies),
+    };
+  }
+
+  /**
+   * Normalize search response based on version
+   * Responses without hits (e.g. filtered by filter_path) are left untouched
+   */
+  normalizeSearchResponse(response: any): any {
+    const adapter = this.getAdapter();
+    if (!adapter || !response || typeof response !== 'object' || !response.hits) {
+      return response;
+    }
+    return adapter.normalizeSearchResponse(response);
+  }
+
+  /**
+   * Prepare request parameters for a client API call (e.g. 'search', 'indices.create')
+   */
+  prepareRequest(api: string, params: any): any {
+    const adapter = this.getAdapter();
+    if (!adapter || !params || typeof params !== 'object') {
+      return params;
+    }
+
+    switch (api) {
+      case 'search':
+      case 'count':
+        return adapter.prepareSearchRequest(params);
+
+      case 'indices.create': {
+        if (!('prepareIndexSettings' in adapter)) {
+          return params;
+        }
+        // Legacy clients carry settings and mappings in the body
+        if (params.body && typeof params.body === 'object') {
+          return { ...params, body: adapter.prepareIndexSettings(params.body) };
+        }
+        return adapter.prepareIndexSettings(params);
+      }
+
+      case 'transport.request': {
+        if (typeof params.path !== 'string') {
+          return params;
+        }
+        const prepared = { ...params, path: adapter.prepareRequestPath(params.method || 'GET', params.path) };
+        if (isSearchPath(prepared.path) && prepared.body && typeof prepared.body === 'object') {
+          prepared.body = adapter.prepareSearchRequest(prepared.body);
+        }
+        return prepared;
+      }
+
+      default:
+        return params;
+    }
+  }
+
+  /**
+   * Normalize the response of a client API call based on version
+   */
+  normalizeResponse(api: string, response: any, params?: any): any {
+    switch (api) {
+      case 'search':
+      case 'scroll':
+        return this.normalizeSearchResponse(response);
+
+      case 'cat.indices':
+        // Text output (format other than json) is returned as-is
+        return Array.isArray(response) ? this.normalizeCatIndices(response) : response;
+
+      case 'transport.request':
+        return typeof params?.path === 'string' && isSearchPath(params.path)
+          ? this.normalizeSearchResponse(response)
+          : response;
+
+      default:
+        return response;
+    }
+  }
+
   /**
    * Get feature summary
    */
   getFeatureSummary(): string {
-    const features = [
-      { name: 'Data Streams', supported: this.supportsDataStreams() },
-      { name: 'ILM', supported: this.supportsILM() },
-      { name: 'Searchable Snapshots', supported: this.supportsSearchableSnapshots() },
+    const features: Array<{ name: string } & FeatureStatus> = [
+      { name: 'Data Streams', ...this.getFeatureStatus('data_streams') },
+      this.isOpenSearch()
+        ? { name: 'ISM', ...this.getFeatureStatus('ism') }
+        : { name: 'ILM', ...this.getFeatureStatus('ilm') },
+      { name: 'Searchable Snapshots', ...this.getFeatureStatus('searchable_snapshots') },
       { name: 'Runtime Fields', supported: this.supportsRuntimeFields() },
       { name: 'Point in Time', supported: this.supportsPointInTime() },
-      { name: 'SQL API', supported: this.supportsSQL() },
+      { name: 'SQL API', ...this.getFeatureStatus('sql') },
+      ...(this.isOpenSearch() ? [{ name: 'PPL', ...this.getFeatureStatus('ppl') }] : []),
       { name: 'Cross-cluster Search', supported: this.supportsCrossClusterSearch() },
     ];
 
-    let summary = `Elasticsearch ${this.version.full} Capabilities:\n`;
+    const product = this.isOpenSearch() ? 'OpenSearch' : 'Elasticsearch';
+    let summary = `${product} ${this.version.full} Capabilities:\n`;
     summary += `${'='.repeat(50)}\n`;
 
     for (const feature of features) {
       const status = feature.supported ? '✓' : '✗';
-      summary += `  ${status} ${feature.name}\n`;
+      summary += `  ${status} ${feature.name}${feature.reason ? ` (${feature.reason})` : ''}\n`;
+    }
+
+    // What the probe found about the license and security
+    if (this.probe) {
+      summary += `\n`;
+      if (this.probe.license) {
+        const expires = this.probe.license.expiresAt
+          ? `, expires ${new Date(this.probe.license.expiresAt).toISOString().slice(0, 10)}`
+          : '';
+        summary += `  License:  ${this.probe.license.type} (${this.probe.license.status}${expires})\n`;
+      }
+      if (this.probe.security) {
+        const security = this.probe.security;
+        summary += security.enabled
+          ? `  Security: enabled${security.user ? ` (user ${security.user}${security.roles?.length ? `, roles ${security.roles.join(', ')}` : ''})` : ''}\n`
+          : `  Security: disabled${security.reason ? ` (${security.reason})` : ''}\n`;
+      }
+      for (const error of this.probe.errors) {
+        summary += `  ⚠️  Probe failed: ${error} - using the version check\n`;
+      }
+    } else {
+      summary += `\n  Features decided by version only (feature probe not run)\n`;
     }
 
     // Add version-specific warnings
@@ -311,3 +674,11 @@ export class CapabilityManager {
     return summary;
   }
 }
+
+/**
+ * Check if a raw request path targets the search or scroll endpoint
+ */
+function isSearchPath(path: string): boolean {
+  const segments = path.split('?')[0].split('/').filter(Boolean);
+  return segments.includes('_search') && !segments.includes('template');
+}
@@ -0,0 +1,126 @@
+/**
+ * Cat Formatter - Render _cat API rows as aligned tables or CSV
+ * Rows are requested with format=json and rendered client-side instead of
+ * returning cat text as a quoted JSON string
+ */
+
+export interface RenderedRows {
+  header: string;
+  rows: string[];
+}
+
+/**
+ * Check whether a path targets a _cat API
+ */
+export function isCatPath(path: string): boolean {
+  return /^_cat(\/|$)/.test(path.split('?')[0].replace(/^\/+/, ''));
+}
+
+/**
+ * Check whether a response is a list of flat records that can be rendered as rows
+ */
+export function isTabular(response: any): response is Array<Record<string, any>> {
+  return (
+    Array.isArray(response) &&
+    response.length > 0 &&
+    response.every(
+      row =>
+        row !== null &&
+        typeof row === 'object' &&
+        !Array.isArray(row) &&
+        Object.values(row).every(value => value === null || typeof value !== 'object')
+    )
+  );
+}
+
+/**
+ * Column names in first-seen order
+ */
+function collectColumns(rows: Array<Record<string, any>>): string[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key);
+        columns.push(key);
+      }
+    }
+  }
+  return columns;
+}
+
+function cellText(value: any): string {
+  return value === null || value === undefined ? '' : String(value);
+}
+
+function isNumeric(text: string): boolean {
+  return /^-?\d+(\.\d+)?$/.test(text);
+}
+
+/**
+ * Sort rows client-side using _cat `s` syntax ("docs.count:desc,index")
+ * Used when the server cannot sort cat output itself
+ */
+export function sortCatRows(rows: Array<Record<string, any>>, sort: string[]): Array<Record<string, any>> {
+  const keys = sort.map(spec => {
+    const [column, order] = spec.split(':');
+    return { column: column.trim(), desc: order?.trim().toLowerCase() === 'desc' };
+  });
+
+  return [...rows].sort((a, b) => {
+    for (const { column, desc } of keys) {
+      const left = cellText(a[column]);
+      const right = cellText(b[column]);
+      const compared = isNumeric(left) && isNumeric(right)
+        ? parseFloat(left) - parseFloat(right)
+        : left.localeCompare(right);
+      if (compared !== 0) {
+        return desc ? -compared : compared;
+      }
+    }
+    return 0;
+  });
+}
+
+/**
+ * Render rows as an aligned text table, numbers right-aligned as in _cat output
+ */
+export function formatTable(rows: Array<Record<string, any>>): RenderedRows {
+  const columns = collectColumns(rows);
+  const cells = rows.map(row => columns.map(column => cellText(row[column])));
+
+  // reduce rather than Math.max(...): spreading one argument per row overflows the stack on large outputs
+  const widths = columns.map((column, i) =>
+    cells.reduce((width, row) => Math.max(width, row[i].length), column.length)
+  );
+  const numeric = columns.map((_, i) =>
+    cells.every(row => row[i] === '' || isNumeric(row[i]))
+  );
+
+  const renderLine = (values: string[]) =>
+    values
+      .map((value, i) => (numeric[i] ? value.padStart(widths[i]) : value.padEnd(widths[i])))
+      .join(' ')
+      .trimEnd();
+
+  return {
+    header: renderLine(columns),
+    rows: cells.map(renderLine),
+  };
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Render rows as CSV with a header line
+ */
+export function formatCsv(rows: Array<Record<string, any>>): RenderedRows {
+  const columns = collectColumns(rows);
+  return {
+    header: columns.map(csvCell).join(','),
+    rows: rows.map(row => columns.map(column => csvCell(cellText(row[column]))).join(',')),
+  };
+}
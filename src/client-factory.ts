@@ -1,9 +1,11 @@
 /**
- * Client Factory - Dynamically load appropriate ES client based on version
+ * Client Factory - Dynamically load appropriate ES or OpenSearch client based on version
  */
 
 import type { ClientOptions } from '@elastic/elasticsearch';
+import type { ClientOptions as OpenSearchClientOptions } from '@opensearch-project/opensearch';
 import type { ESVersionInfo } from './version-detector.js';
+import { authorizationHeader, createPinnedCaAgent, type ConnectionCredentials } from './connection-auth.js';
 
 export type ESClient = any; // Use any to avoid type conflicts between versions
 
@@ -20,6 +22,14 @@ export async function createVersionedClient(
   let clientPackage: string = '@elastic/elasticsearch-v8'; // Default
 
   try {
+    // OpenSearch has its own client for every major version
+    if (version.distribution === 'opensearch') {
+      clientPackage = '@opensearch-project/opensearch';
+      const openSearchModule = await import('@opensearch-project/opensearch');
+      console.error(`Using ${clientPackage} for OpenSearch ${version.full}`);
+      return new openSearchModule.Client(toOpenSearchOptions(options));
+    }
+
     switch (major) {
       case 9:
         // ES 9.x - try to load v9 client, fallback to v8 if not available
@@ -92,7 +102,7 @@ export async function createVersionedClient(
     console.error(`Using ${clientPackage} for ES ${version.full}`);
 
     // Create client instance
-    const client = new ClientClass(options);
+    const client = new ClientClass(major < 8 ? toLegacyOptions(options, major) : options);
 
     return client;
   } catch (error) {
@@ -106,6 +116,62 @@ export async function createVersionedClient(
   }
 }
 
+/**
+ * Bearer auth and CA fingerprint pinning for clients without them (ES 5.x/6.x, OpenSearch)
+ * The token is sent as an Authorization header; the fingerprint is checked by a pinned HTTPS agent
+ */
+function pinnedBearerOptions(options: ClientOptions): { headers?: Record<string, string>; agent?: () => unknown } {
+  const auth = options.auth as ConnectionCredentials | undefined;
+  return {
+    ...(auth && 'bearer' in auth && {
+      headers: { ...(options.headers as Record<string, string>), authorization: authorizationHeader(auth)! },
+    }),
+    ...(options.caFingerprint && {
+      agent: () => createPinnedCaAgent({ keepAlive: true, ...(options.tls as object) }, options.caFingerprint!),
+    }),
+  };
+}
+
+/**
+ * Translate 8.x client options to the 5.x-7.x clients
+ * They take TLS settings as `ssl`; 7.x supports bearer auth and caFingerprint natively
+ */
+function toLegacyOptions(options: ClientOptions, major: number): Record<string, unknown> {
+  const { tls, ...rest } = options;
+  if (major >= 7) {
+    return { ...rest, ...(tls && { ssl: tls }) };
+  }
+
+  const { caFingerprint, auth, ...legacy } = rest;
+  return {
+    ...legacy,
+    ...(auth && !('bearer' in auth) && { auth }),
+    ...(tls && { ssl: tls }),
+    ...pinnedBearerOptions(options),
+  };
+}
+
+/**
+ * Translate 8.x client options to the OpenSearch client
+ * OpenSearch takes TLS settings as `ssl` and only supports basic authentication
+ */
+function toOpenSearchOptions(options: ClientOptions): OpenSearchClientOptions {
+  const auth = options.auth as { username?: string; password?: string; apiKey?: unknown } | undefined;
+  if (auth?.apiKey) {
+    throw new Error('OpenSearch does not support API key authentication. Use ES_USERNAME and ES_PASSWORD instead');
+  }
+
+  return {
+    node: options.node as string,
+    ...(auth?.username && { auth: { username: auth.username, password: auth.password || '' } }),
+    ...(options.maxRetries !== undefined && { maxRetries: options.maxRetries }),
+    ...(options.requestTimeout !== undefined && { requestTimeout: options.requestTimeout }),
+    ...(options.compression && { compression: 'gzip' as const }),
+    ...(options.tls && { ssl: options.tls }),
+    ...pinnedBearerOptions(options),
+  };
+}
+
 /**
  * Verify client connection
  */
@@ -0,0 +1,410 @@
+/**
+ * Cluster Analyzer - Condense cluster health, stats, pending tasks and node stats
+ * into a short overview with the numbers an operator looks at first
+ */
+
+export interface ClusterSources {
+  health: any;            // _cluster/health
+  stats: any;             // _cluster/stats
+  pendingTasks: any;      // _cluster/pending_tasks
+  nodeStats: any;         // _nodes/stats/jvm,fs
+  unassignedShards: any[]; // _cat/shards rows with state and unassigned.reason
+}
+
+export interface UnassignedReason {
+  reason: string;
+  count: number;
+  primaries: number;
+  sample_indices: string[];
+}
+
+export interface NodeHeadline {
+  name: string;
+  roles: string[];
+  heap_percent: number;
+  disk_used_percent: number;
+}
+
+export interface ClusterOverview {
+  cluster_name: string;
+  status: string;
+  versions: string[];
+
+  nodes: {
+    total: number;
+    data: number;
+    by_role: Record<string, number>;
+  };
+
+  shards: {
+    active_primary: number;
+    active: number;
+    relocating: number;
+    initializing: number;
+    unassigned: number;
+    delayed_unassigned: number;
+    active_percent: number;
+  };
+
+  unassigned_reasons: UnassignedReason[];
+
+  pending_tasks: {
+    count: number;
+    max_wait_ms: number;
+    top_sources: string[];
+  };
+
+  indices: {
+    count: number;
+    docs: number;
+    store_bytes: number;
+  };
+
+  jvm: {
+    heap_used_bytes: number;
+    heap_max_bytes: number;
+    heap_percent: number;
+  };
+
+  disk: {
+    total_bytes: number;
+    available_bytes: number;
+    used_percent: number;
+  };
+
+  node_headlines: NodeHeadline[];
+  issues: string[];
+}
+
+// Thresholds for flagging issues
+const HEAP_WARNING_PERCENT = 85;
+const DISK_WARNING_PERCENT = 85;   // Default low disk watermark
+const PENDING_TASK_WARNING_MS = 30 * 1000;
+
+/**
+ * Format bytes to human-readable size
+ */
+function formatBytes(bytes: number): string {
+  if (!bytes || bytes <= 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  const k = 1024;
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), units.length - 1);
+
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${units[i]}`;
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+/**
+ * Count nodes per role; ES 5.x/6.x report master/data/ingest, later versions add
+ * ml, transform, data tiers, etc.
+ */
+function countRoles(nodeStats: any, stats: any): Record<string, number> {
+  const byRole: Record<string, number> = {};
+  const nodes = Object.values(nodeStats?.nodes || {}) as any[];
+
+  if (nodes.some(node => Array.isArray(node.roles))) {
+    for (const node of nodes) {
+      const roles: string[] = Array.isArray(node.roles) && node.roles.length > 0
+        ? node.roles
+        : ['coordinating_only'];
+      for (const role of roles) {
+        byRole[role] = (byRole[role] || 0) + 1;
+      }
+    }
+    return byRole;
+  }
+
+  // Fall back to the per-role counts in _cluster/stats
+  for (const [role, count] of Object.entries(stats?.nodes?.count || {})) {
+    if (role !== 'total' && typeof count === 'number' && count > 0) {
+      byRole[role] = count;
+    }
+  }
+  return byRole;
+}
+
+/**
+ * Group unassigned shards by allocation reason
+ */
+function groupUnassigned(rows: any[]): UnassignedReason[] {
+  const groups = new Map<string, UnassignedReason>();
+
+  for (const row of rows) {
+    if (row.state !== 'UNASSIGNED') continue;
+
+    const reason = row['unassigned.reason'] || 'UNKNOWN';
+    if (!groups.has(reason)) {
+      groups.set(reason, { reason, count: 0, primaries: 0, sample_indices: [] });
+    }
+
+    const group = groups.get(reason)!;
+    group.count++;
+    if (row.prirep === 'p') {
+      group.primaries++;
+    }
+    if (row.index && group.sample_indices.length < 3 && !group.sample_indices.includes(row.index)) {
+      group.sample_indices.push(row.index);
+    }
+  }
+
+  return Array.from(groups.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Build the cluster overview
+ */
+export function analyzeCluster(sources: ClusterSources): ClusterOverview {
+  const { health, stats, pendingTasks, nodeStats, unassignedShards } = sources;
+
+  // Per-node heap and disk, highest pressure first
+  const nodeHeadlines: NodeHeadline[] = (Object.values(nodeStats?.nodes || {}) as any[])
+    .map(node => {
+      const fsTotal = node.fs?.total?.total_in_bytes || 0;
+      const fsAvailable = node.fs?.total?.available_in_bytes || 0;
+      return {
+        name: node.name || node.host || 'unknown',
+        roles: Array.isArray(node.roles) ? node.roles : [],
+        heap_percent: node.jvm?.mem?.heap_used_percent || 0,
+        disk_used_percent: percent(fsTotal - fsAvailable, fsTotal),
+      };
+    })
+    .sort((a, b) =>
+      Math.max(b.heap_percent, b.disk_used_percent) - Math.max(a.heap_percent, a.disk_used_percent)
+    );
+
+  const heapUsed = stats?.nodes?.jvm?.mem?.heap_used_in_bytes || 0;
+  const heapMax = stats?.nodes?.jvm?.mem?.heap_max_in_bytes || 0;
+  const diskTotal = stats?.nodes?.fs?.total_in_bytes || 0;
+  const diskAvailable = stats?.nodes?.fs?.available_in_bytes || 0;
+
+  const tasks: any[] = pendingTasks?.tasks || [];
+  const maxWait = tasks.reduce((max, task) => Math.max(max, task.time_in_queue_millis || 0), 0);
+
+  const overview: ClusterOverview = {
+    cluster_name: health?.cluster_name || stats?.cluster_name || 'unknown',
+    status: health?.status || stats?.status || 'unknown',
+    versions: stats?.nodes?.versions || [],
+
+    nodes: {
+      total: health?.number_of_nodes ?? stats?.nodes?.count?.total ?? 0,
+      data: health?.number_of_data_nodes ?? 0,
+      by_role: countRoles(nodeStats, stats),
+    },
+
+    shards: {
+      active_primary: health?.active_primary_shards || 0,
+      active: health?.active_shards || 0,
+      relocating: health?.relocating_shards || 0,
+      initializing: health?.initializing_shards || 0,
+      unassigned: health?.unassigned_shards || 0,
+      delayed_unassigned: health?.delayed_unassigned_shards || 0,
+      active_percent: health?.active_shards_percent_as_number ?? 100,
+    },
+
+    unassigned_reasons: groupUnassigned(unassignedShards || []),
+
+    pending_tasks: {
+      count: tasks.length,
+      max_wait_ms: maxWait,
+      top_sources: tasks.slice(0, 5).map(task => `${task.priority || ''} ${task.source || ''}`.trim()),
+    },
+
+    indices: {
+      count: stats?.indices?.count || 0,
+      docs: stats?.indices?.docs?.count || 0,
+      store_bytes: stats?.indices?.store?.size_in_bytes || 0,
+    },
+
+    jvm: {
+      heap_used_bytes: heapUsed,
+      heap_max_bytes: heapMax,
+      heap_percent: percent(heapUsed, heapMax),
+    },
+
+    disk: {
+      total_bytes: diskTotal,
+      available_bytes: diskAvailable,
+      used_percent: percent(diskTotal - diskAvailable, diskTotal),
+    },
+
+    node_headlines: nodeHeadlines,
+    issues: [],
+  };
+
+  // Collect issues
+  if (overview.status === 'red') {
+    overview.issues.push('Cluster is RED: at least one primary shard is unassigned');
+  } else if (overview.status === 'yellow') {
+    overview.issues.push('Cluster is YELLOW: some replica shards are unassigned');
+  }
+
+  if (overview.shards.unassigned > 0) {
+    const top = overview.unassigned_reasons[0];
+    overview.issues.push(
+      `${overview.shards.unassigned} unassigned shards` + (top ? ` (mostly ${top.reason})` : '')
+    );
+  }
+
+  const hotHeap = nodeHeadlines.filter(node => node.heap_percent >= HEAP_WARNING_PERCENT);
+  if (hotHeap.length > 0) {
+    overview.issues.push(
+      `${hotHeap.length} node(s) above ${HEAP_WARNING_PERCENT}% heap: ${hotHeap.slice(0, 3).map(n => n.name).join(', ')}`
+    );
+  }
+
+  const fullDisk = nodeHeadlines.filter(node => node.disk_used_percent >= DISK_WARNING_PERCENT);
+  if (fullDisk.length > 0) {
+    overview.issues.push(
+      `${fullDisk.length} node(s) above the ${DISK_WARNING_PERCENT}% disk watermark: ${fullDisk.slice(0, 3).map(n => n.name).join(', ')}`
+    );
+  }
+
+  if (overview.pending_tasks.count > 0 && overview.pending_tasks.max_wait_ms >= PENDING_TASK_WARNING_MS) {
+    overview.issues.push(
+      `${overview.pending_tasks.count} pending cluster tasks, oldest waiting ${(overview.pending_tasks.max_wait_ms / 1000).toFixed(0)}s`
+    );
+  }
+
+  if (overview.versions.length > 1) {
+    overview.issues.push(`Mixed node versions: ${overview.versions.join(', ')}`);
+  }
+
+  return overview;
+}
+
+function statusIcon(status: string): string {
+  return status === 'green' ? '🟢' : status === 'yellow' ? '🟡' : status === 'red' ? '🔴' : '⚪';
+}
+
+function formatRoles(byRole: Record<string, number>): string {
+  return Object.entries(byRole)
+    .sort((a, b) => b[1] - a[1])
+    .map(([role, count]) => `${role}(${count})`)
+    .join(' ');
+}
+
+/**
+ * Format overview in minimal mode: a few headline lines
+ */
+export function formatMinimal(overview: ClusterOverview): string {
+  let text = `${statusIcon(overview.status)} ${overview.cluster_name}: ${overview.status.toUpperCase()}`;
+  if (overview.versions.length > 0) {
+    text += ` (ES ${overview.versions.join(', ')})`;
+  }
+  text += `\n`;
+
+  text += `Nodes: ${overview.nodes.total} | Data: ${overview.nodes.data} | `;
+  text += `Shards: ${overview.shards.active.toLocaleString()} active, ${overview.shards.unassigned} unassigned | `;
+  text += `Pending tasks: ${overview.pending_tasks.count}\n`;
+
+  text += `Heap: ${overview.jvm.heap_percent.toFixed(1)}% | Disk: ${overview.disk.used_percent.toFixed(1)}% used | `;
+  text += `Indices: ${overview.indices.count.toLocaleString()} (${overview.indices.docs.toLocaleString()} docs, ${formatBytes(overview.indices.store_bytes)})\n`;
+
+  if (overview.issues.length > 0) {
+    text += `Issues: ${overview.issues.join('; ')}\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Format overview in compact mode: sections with roles, shard reasons and node pressure
+ */
+export function formatCompact(overview: ClusterOverview): string {
+  let text = `🩺 Cluster Overview: ${overview.cluster_name}\n`;
+  text += `${'='.repeat(60)}\n\n`;
+
+  text += `Status:       ${statusIcon(overview.status)} ${overview.status.toUpperCase()}`;
+  text += ` (${overview.shards.active_percent.toFixed(1)}% of shards active)\n`;
+  if (overview.versions.length > 0) {
+    text += `Versions:     ${overview.versions.join(', ')}\n`;
+  }
+  text += `\n`;
+
+  // Nodes
+  text += `Nodes:        ${overview.nodes.total} total | ${overview.nodes.data} data\n`;
+  const roles = formatRoles(overview.nodes.by_role);
+  if (roles) {
+    text += `By role:      ${roles}\n`;
+  }
+  text += `\n`;
+
+  // Shards
+  text += `Shards:       ${overview.shards.active.toLocaleString()} active `;
+  text += `(primary: ${overview.shards.active_primary.toLocaleString()})\n`;
+  if (overview.shards.relocating > 0 || overview.shards.initializing > 0) {
+    text += `              🔄 Relocating: ${overview.shards.relocating} | 🟡 Initializing: ${overview.shards.initializing}\n`;
+  }
+  if (overview.shards.unassigned > 0) {
+    text += `              🔴 Unassigned: ${overview.shards.unassigned}`;
+    if (overview.shards.delayed_unassigned > 0) {
+      text += ` (delayed: ${overview.shards.delayed_unassigned})`;
+    }
+    text += `\n`;
+  }
+
+  if (overview.unassigned_reasons.length > 0) {
+    text += `\nUnassigned Shard Reasons:\n`;
+    text += `${'─'.repeat(60)}\n`;
+    for (const group of overview.unassigned_reasons.slice(0, 10)) {
+      text += `  • ${group.reason}: ${group.count} shards`;
+      if (group.primaries > 0) {
+        text += ` (${group.primaries} primary)`;
+      }
+      text += `\n`;
+      if (group.sample_indices.length > 0) {
+        text += `    e.g. ${group.sample_indices.join(', ')}\n`;
+      }
+    }
+  }
+  text += `\n`;
+
+  // Resources
+  text += `Resources:\n`;
+  text += `${'─'.repeat(60)}\n`;
+  text += `  JVM heap:   ${formatBytes(overview.jvm.heap_used_bytes)} / ${formatBytes(overview.jvm.heap_max_bytes)}`;
+  text += ` (${overview.jvm.heap_percent.toFixed(1)}%)\n`;
+  text += `  Disk:       ${formatBytes(overview.disk.total_bytes - overview.disk.available_bytes)} / ${formatBytes(overview.disk.total_bytes)}`;
+  text += ` (${overview.disk.used_percent.toFixed(1)}% used)\n`;
+  text += `  Indices:    ${overview.indices.count.toLocaleString()} | `;
+  text += `Docs: ${overview.indices.docs.toLocaleString()} | Store: ${formatBytes(overview.indices.store_bytes)}\n`;
+
+  const busiest = overview.node_headlines.slice(0, 5);
+  if (busiest.length > 0) {
+    text += `\nBusiest Nodes (heap / disk):\n`;
+    for (const node of busiest) {
+      text += `  ${node.name}: ${node.heap_percent.toFixed(0)}% / ${node.disk_used_percent.toFixed(1)}%`;
+      if (node.roles.length > 0) {
+        text += ` [${node.roles.join(', ')}]`;
+      }
+      text += `\n`;
+    }
+  }
+
+  // Pending tasks
+  text += `\nPending Tasks: ${overview.pending_tasks.count}`;
+  if (overview.pending_tasks.count > 0) {
+    text += ` (oldest waiting ${(overview.pending_tasks.max_wait_ms / 1000).toFixed(1)}s)\n`;
+    for (const source of overview.pending_tasks.top_sources) {
+      text += `  • ${source}\n`;
+    }
+  } else {
+    text += `\n`;
+  }
+
+  // Issues
+  if (overview.issues.length > 0) {
+    text += `\n⚠️  Issues:\n`;
+    for (const issue of overview.issues) {
+      text += `  • ${issue}\n`;
+    }
+  } else {
+    text += `\n✓ No issues detected\n`;
+  }
+
+  return text;
+}
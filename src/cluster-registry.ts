@@ -0,0 +1,512 @@
+/**
+ * Cluster Registry - Named cluster connections for one server
+ * Each configured cluster gets its own versioned client, CapabilityManager,
+ * feature probe and privilege check, created on first use. Tools resolve the
+ * connection per call from their optional `cluster` parameter.
+ */
+
+import { z } from 'zod';
+import type { Client, ClientOptions } from '@elastic/elasticsearch';
+import { detectESVersion, formatVersionInfo, type ESVersionInfo } from './version-detector.js';
+import { createVersionedClient, verifyConnection } from './client-factory.js';
+import { decodeCloudId, resolveConnection, resolveNodeUrl } from './connection-auth.js';
+import { CapabilityManager } from './capability-manager.js';
+import { withRequestMiddleware } from './request-middleware.js';
+import { FeatureProbe } from './feature-probe.js';
+import { parseDurationMs } from './cursor-store.js';
+import {
+  TOOL_PRIVILEGES,
+  checkToolPrivileges,
+  formatMissingPrivileges,
+  type PrivilegeCheckResult,
+} from './privilege-checker.js';
+
+/**
+ * Connection settings of one cluster
+ */
+export const ClusterConnectionSchema = z
+  .object({
+    url: z
+      .string()
+      .trim()
+      .min(1, "Elasticsearch URL cannot be empty")
+      .url("Invalid Elasticsearch URL format")
+      .optional()
+      .describe("Elasticsearch server URL"),
+
+    cloudId: z
+      .string()
+      .trim()
+      .min(1, "Cloud ID cannot be empty")
+      .optional()
+      .describe("Elastic Cloud deployment ID, instead of url"),
+
+    apiKey: z
+      .string()
+      .optional()
+      .describe("API key for Elasticsearch authentication"),
+
+    username: z
+      .string()
+      .optional()
+      .describe("Username for Elasticsearch authentication"),
+
+    password: z
+      .string()
+      .optional()
+      .describe("Password for Elasticsearch authentication"),
+
+    bearerToken: z
+      .string()
+      .optional()
+      .describe("Bearer token for Elasticsearch authentication, e.g. a service account token"),
+
+    caCert: z
+      .string()
+      .optional()
+      .describe("Path to custom CA certificate for Elasticsearch"),
+
+    caFingerprint: z
+      .string()
+      .regex(/^[0-9A-Fa-f]{2}(:?[0-9A-Fa-f]{2}){31}$/, "CA fingerprint must be a SHA-256 digest (64 hex characters, colons optional)")
+      .optional()
+      .describe("SHA-256 fingerprint of the CA certificate to pin, e.g. for self-signed clusters"),
+
+    clientCert: z
+      .string()
+      .optional()
+      .describe("Path to client certificate for mutual TLS"),
+
+    clientKey: z
+      .string()
+      .optional()
+      .describe("Path to client private key for mutual TLS"),
+
+    clientKeyPassphrase: z
+      .string()
+      .optional()
+      .describe("Passphrase of the client private key"),
+
+    rejectUnauthorized: z
+      .boolean()
+      .optional()
+      .describe("Set to false to accept self-signed certificates (default: NODE_TLS_REJECT_UNAUTHORIZED)"),
+
+    requestTimeout: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Request timeout in milliseconds (default: 60000)"),
+
+    maxRetries: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Retries per request on connection errors and 502/503/504 (default: 5)"),
+  })
+  .strict();
+
+/**
+ * Connection settings of one cluster, with one endpoint and consistent auth
+ */
+export const ClusterConfigSchema = ClusterConnectionSchema
+  .refine(
+    (data) => {
+      // If username is provided, password must be provided
+      if (data.username) {
+        return !!data.password;
+      }
+
+      // If password is provided, username must be provided
+      if (data.password) {
+        return !!data.username;
+      }
+
+      // If apiKey is provided, it's valid
+      if (data.apiKey) {
+        return true;
+      }
+
+      // No auth is also valid (for local development)
+      return true;
+    },
+    {
+      message:
+        "Either ES_API_KEY or both ES_USERNAME and ES_PASSWORD must be provided, or no auth for local development",
+      path: ["username", "password"],
+    }
+  )
+  .superRefine((data, ctx) => {
+    if (!data.url && !data.cloudId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["url"], message: "Either url or cloudId must be provided" });
+    } else if (data.url && data.cloudId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["cloudId"], message: "Set either url or cloudId, not both" });
+    } else if (data.cloudId) {
+      try {
+        decodeCloudId(data.cloudId);
+      } catch (error) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["cloudId"],
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    const methods = [data.apiKey && "apiKey", data.bearerToken && "bearerToken", data.username && "username/password"]
+      .filter(Boolean);
+    if (methods.length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["bearerToken"],
+        message: `Use one authentication method, not ${methods.join(" and ")}`,
+      });
+    }
+
+    if (!!data.clientCert !== !!data.clientKey) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [data.clientCert ? "clientKey" : "clientCert"],
+        message: "clientCert and clientKey must be provided together for mutual TLS",
+      });
+    }
+  });
+
+export type ClusterConfig = z.infer<typeof ClusterConfigSchema>;
+
+export interface ClusterRegistryOptions {
+  /** How long a feature probe result is used before the cluster is probed again, e.g. "15m" */
+  featureProbeTtl?: string;
+  /** How often connected clusters are checked for a version change, e.g. "5m"; "0s" disables the check */
+  versionCheckInterval?: string;
+}
+
+export interface ClusterConnection {
+  name: string;
+  url: string;
+  versionInfo: ESVersionInfo;
+  capabilityManager: CapabilityManager;
+  esClient: Client;
+  privileges: PrivilegeCheckResult;
+  /** Stop the feature probe refresh and close the client */
+  close: () => Promise<void>;
+}
+
+/**
+ * Endpoint, credentials and TLS settings of a cluster, as used for detection and the client
+ */
+function connectionSettings(config: ClusterConfig) {
+  return resolveConnection({
+    ...config,
+    rejectUnauthorized: config.rejectUnauthorized ?? (process.env.NODE_TLS_REJECT_UNAUTHORIZED === '0' ? false : undefined),
+  });
+}
+
+/**
+ * Connect to one cluster: detect the version, load the matching client, probe
+ * features and check the privileges of the tools the cluster supports
+ */
+async function connectCluster(
+  name: string,
+  config: ClusterConfig,
+  options: ClusterRegistryOptions
+): Promise<ClusterConnection> {
+  const connection = connectionSettings(config);
+  const { url } = connection;
+
+  console.error(`[${name}] Detecting Elasticsearch/OpenSearch version...`);
+
+  // Detect ES version using native HTTP (no client dependency), with the same auth and TLS as the client
+  const versionInfo = await detectESVersion(connection);
+
+  console.error(`\n${'='.repeat(60)}`);
+  console.error(`[${name}] Connected to: ${formatVersionInfo(versionInfo)}`);
+  console.error(`${'='.repeat(60)}\n`);
+
+  const capabilityManager = new CapabilityManager(versionInfo);
+
+  const clientOptions: ClientOptions = {
+    node: url,
+    maxRetries: config.maxRetries ?? 5,
+    requestTimeout: config.requestTimeout ?? 60000, // 60 seconds
+    compression: true,
+    ...(connection.auth && { auth: connection.auth }),
+    ...(connection.tls && { tls: connection.tls }),
+    ...(connection.caFingerprint && { caFingerprint: connection.caFingerprint }),
+  };
+
+  console.error(`[${name}] Loading appropriate Elasticsearch client...`);
+  const rawClient = await createVersionedClient(versionInfo, clientOptions);
+
+  console.error(`[${name}] Verifying connection...`);
+  const connected = await verifyConnection(rawClient);
+  if (!connected) {
+    throw new Error(`Failed to verify connection to Elasticsearch cluster '${name}'`);
+  }
+  console.error(`[${name}] Connection verified ✓\n`);
+
+  // Every tool talks to the cluster through the version adapters
+  const esClient = withRequestMiddleware(rawClient, capabilityManager);
+
+  // Check X-Pack, license and security so tools match what the cluster really has
+  console.error(`[${name}] Probing cluster features...`);
+  const featureProbe = new FeatureProbe(
+    esClient,
+    versionInfo,
+    parseDurationMs(options.featureProbeTtl || process.env.ES_FEATURE_PROBE_TTL || "15m")
+  );
+  capabilityManager.applyProbeResult(await featureProbe.get());
+
+  // Re-probe once the result expires so license or security changes are picked up
+  const probeRefresh = setInterval(() => {
+    featureProbe
+      .get()
+      .then((result) => capabilityManager.applyProbeResult(result))
+      .catch((error) =>
+        console.error(
+          `[${name}] Feature probe refresh failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+  }, featureProbe.getTtlMs());
+  probeRefresh.unref();
+
+  console.error(capabilityManager.getFeatureSummary());
+  console.error();
+
+  // Check the privileges of the tools the cluster supports, so narrowly scoped keys don't get 403 on every call
+  const unsupported = new Set(capabilityManager.getUnsupportedTools().map(item => item.tool));
+  console.error(`[${name}] Checking privileges...`);
+  const privileges = await checkToolPrivileges(
+    esClient,
+    capabilityManager,
+    Object.keys(TOOL_PRIVILEGES).filter(tool => !unsupported.has(tool))
+  );
+  if (privileges.checked) {
+    console.error(`[${name}] Privileges checked${privileges.username ? ` for ${privileges.username}` : ""} ✓\n`);
+  } else {
+    console.error(`[${name}] Privilege check skipped (${privileges.reason}) - registering all supported tools\n`);
+  }
+
+  const close = async () => {
+    clearInterval(probeRefresh);
+    await rawClient.close?.();
+  };
+
+  return { name, url, versionInfo, capabilityManager, esClient, privileges, close };
+}
+
+/**
+ * Explain why a tool cannot run on a cluster: a missing feature or a missing cluster privilege
+ */
+export function toolUnavailableReason(connection: ClusterConnection, tool: string): string | undefined {
+  // ilm_status and ism_status are one tool; the cluster decides which lifecycle API it uses
+  const lifecycle = tool === 'ilm_status' || tool === 'ism_status';
+  const unsupported = connection.capabilityManager
+    .getUnsupportedTools()
+    .find(item => item.tool === tool || (lifecycle && (item.tool === 'ilm_status' || item.tool === 'ism_status')));
+  if (unsupported) {
+    return unsupported.reason;
+  }
+
+  const access = connection.privileges.tools[lifecycle ? 'ilm_status' : tool];
+  if (access && !access.allowed) {
+    return formatMissingPrivileges(access);
+  }
+  return undefined;
+}
+
+export class ClusterRegistry {
+  private connections = new Map<string, Promise<ClusterConnection>>();
+  private connected = new Map<string, ClusterConnection>();
+  private failures = new Map<string, string>();
+  private versionChecks = new Map<string, NodeJS.Timeout>();
+  private checkingVersion = new Set<string>();
+  private closed = false;
+
+  constructor(
+    private configs: Record<string, ClusterConfig>,
+    private defaultName: string,
+    private options: ClusterRegistryOptions = {}
+  ) {
+    if (!configs[defaultName]) {
+      throw new Error(`Default cluster '${defaultName}' is not configured`);
+    }
+  }
+
+  getNames(): string[] {
+    return Object.keys(this.configs);
+  }
+
+  getDefaultName(): string {
+    return this.defaultName;
+  }
+
+  getUrl(name: string): string | undefined {
+    const config = this.configs[name];
+    return config && resolveNodeUrl(config);
+  }
+
+  /**
+   * Get a cluster connection, connecting on first use
+   * Concurrent callers share one connection attempt; a failed attempt is retried on the next call.
+   * With a tool name, fails when that tool cannot run on the cluster.
+   */
+  async get(name?: string, tool?: string): Promise<ClusterConnection> {
+    const clusterName = name || this.defaultName;
+    const config = this.configs[clusterName];
+    if (!config) {
+      throw new Error(`Unknown cluster '${clusterName}'. Configured clusters: ${this.getNames().join(', ')}`);
+    }
+
+    if (this.closed) {
+      throw new Error(`Cluster connections are closed; cannot connect to '${clusterName}'`);
+    }
+
+    let connection = this.connections.get(clusterName);
+    if (!connection) {
+      connection = connectCluster(clusterName, config, this.options).then(
+        async (result) => {
+          // Closed while connecting: drop the client instead of registering it and its version watch
+          if (this.closed) {
+            await result.close();
+            throw new Error(`Cluster connections were closed while connecting to '${clusterName}'`);
+          }
+          this.connected.set(clusterName, result);
+          this.failures.delete(clusterName);
+          this.watchVersion(clusterName);
+          return result;
+        },
+        (error) => {
+          this.connections.delete(clusterName);
+          this.failures.set(clusterName, error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+      );
+      this.connections.set(clusterName, connection);
+    }
+
+    const result = await connection;
+    const reason = tool && toolUnavailableReason(result, tool);
+    if (reason) {
+      throw new Error(`${tool} is not available on cluster '${clusterName}': ${reason}`);
+    }
+    return result;
+  }
+
+  /**
+   * Check a connected cluster's version periodically, so upgrades are picked up without a restart
+   */
+  private watchVersion(name: string): void {
+    const intervalMs = parseDurationMs(this.options.versionCheckInterval || process.env.ES_VERSION_CHECK_INTERVAL || "5m");
+    if (intervalMs <= 0 || this.versionChecks.has(name)) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      this.checkVersion(name).catch((error) =>
+        console.error(
+          `[${name}] Version check failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        )
+      );
+    }, intervalMs);
+    timer.unref();
+    this.versionChecks.set(name, timer);
+  }
+
+  /**
+   * Detect the version of a connected cluster again and reconnect when it changed
+   * The old connection keeps serving calls until the new one is ready. Returns true after a reconnect.
+   */
+  async checkVersion(name: string): Promise<boolean> {
+    const current = this.connected.get(name);
+    if (!current || this.checkingVersion.has(name)) {
+      return false;
+    }
+
+    this.checkingVersion.add(name);
+    try {
+      const config = this.configs[name];
+      const versionInfo = await detectESVersion(connectionSettings(config));
+      if (
+        versionInfo.full === current.versionInfo.full &&
+        versionInfo.distribution === current.versionInfo.distribution
+      ) {
+        return false;
+      }
+
+      console.error(
+        `[${name}] Cluster version changed from ${formatVersionInfo(current.versionInfo)} to ${formatVersionInfo(versionInfo)} - reconnecting`
+      );
+      const next = await connectCluster(name, config, this.options);
+      if (this.closed) {
+        await next.close();
+        return false;
+      }
+      this.connections.set(name, Promise.resolve(next));
+      this.connected.set(name, next);
+
+      // Give requests still running on the old client time to finish
+      setTimeout(() => {
+        current.close().catch(() => undefined);
+      }, config.requestTimeout ?? 60000).unref();
+      return true;
+    } finally {
+      this.checkingVersion.delete(name);
+    }
+  }
+
+  /**
+   * Stop the background checks and close every client
+   * Connections still being made are waited for; they close their client instead of registering it.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    this.versionChecks.forEach((timer) => clearInterval(timer));
+    this.versionChecks.clear();
+    const connections = Array.from(this.connected.values());
+    const pending = Array.from(this.connections.values());
+    this.connections.clear();
+    this.connected.clear();
+    await Promise.allSettled([...connections.map((connection) => connection.close()), ...pending]);
+  }
+
+  /**
+   * The default cluster connection; tool registration runs after it is connected
+   */
+  getDefault(): ClusterConnection {
+    const connection = this.connected.get(this.defaultName);
+    if (!connection) {
+      throw new Error(`Default cluster '${this.defaultName}' is not connected`);
+    }
+    return connection;
+  }
+
+  /**
+   * An existing connection, without connecting
+   */
+  peek(name: string): ClusterConnection | undefined {
+    return this.connected.get(name);
+  }
+
+  /**
+   * Error of the last failed connection attempt, if any
+   */
+  getFailure(name: string): string | undefined {
+    return this.failures.get(name);
+  }
+
+  /**
+   * Describe the `cluster` tool parameter with the configured names
+   */
+  describeClusterParam(): string {
+    return this.getNames().length > 1
+      ? `Cluster to run against: ${this.getNames().join(', ')} (default: ${this.defaultName})`
+      : `Cluster to run against (default: ${this.defaultName}; see list_clusters)`;
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Config Loader - Read the server configuration from a JSON/YAML file and the environment
+ * The file is given by --config or ES_MCP_CONFIG; environment variables override
+ * the values it contains. The merged result is validated against ConfigSchema.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import type { ZodIssue } from 'zod';
+import { ConfigSchema, type ElasticsearchConfig } from './server.js';
+
+export interface LoadedConfig {
+  config: ElasticsearchConfig;
+  /** Config file the settings came from, if any */
+  file?: string;
+}
+
+/**
+ * Environment variables and the configuration field each one overrides
+ */
+const ENV_OVERRIDES: Array<{ env: string; field: string; parse?: (value: string) => unknown }> = [
+  { env: 'ES_URL', field: 'url' },
+  { env: 'ES_CLOUD_ID', field: 'cloudId' },
+  { env: 'ES_API_KEY', field: 'apiKey' },
+  { env: 'ES_USERNAME', field: 'username' },
+  { env: 'ES_PASSWORD', field: 'password' },
+  { env: 'ES_BEARER_TOKEN', field: 'bearerToken' },
+  { env: 'ES_CA_CERT', field: 'caCert' },
+  { env: 'ES_CA_FINGERPRINT', field: 'caFingerprint' },
+  { env: 'ES_CLIENT_CERT', field: 'clientCert' },
+  { env: 'ES_CLIENT_KEY', field: 'clientKey' },
+  { env: 'ES_CLIENT_KEY_PASSPHRASE', field: 'clientKeyPassphrase' },
+  { env: 'NODE_TLS_REJECT_UNAUTHORIZED', field: 'rejectUnauthorized', parse: value => value !== '0' },
+  { env: 'ES_REQUEST_TIMEOUT', field: 'requestTimeout', parse: Number },
+  { env: 'ES_MAX_RETRIES', field: 'maxRetries', parse: Number },
+  { env: 'MAX_TOKEN_CALL', field: 'maxTokenCall', parse: Number },
+  { env: 'TOKEN_ENCODING', field: 'tokenEncoding' },
+  { env: 'ES_FEATURE_PROBE_TTL', field: 'featureProbeTtl' },
+  { env: 'ES_VERSION_CHECK_INTERVAL', field: 'versionCheckInterval' },
+  { env: 'MCP_READ_ONLY', field: 'apiPolicy.readOnly', parse: parseBoolean },
+  { env: 'MCP_ALLOW_DESTRUCTIVE', field: 'apiPolicy.allowDestructive', parse: parseBoolean },
+  { env: 'ES_API_ALLOWLIST', field: 'apiPolicy.allowlist', parse: parseList },
+  { env: 'ES_API_DENYLIST', field: 'apiPolicy.denylist', parse: parseList },
+  { env: 'MCP_TRANSPORT', field: 'transport.mode' },
+  { env: 'MCP_HTTP_PORT', field: 'transport.port', parse: Number },
+  { env: 'MCP_HTTP_HOST', field: 'transport.host' },
+  { env: 'MCP_HTTP_AUTH_TOKENS', field: 'transport.auth.tokens', parse: parseList },
+  { env: 'MCP_HTTP_INTROSPECTION_URL', field: 'transport.auth.introspectionUrl' },
+  { env: 'MCP_HTTP_INTROSPECTION_CLIENT_ID', field: 'transport.auth.clientId' },
+  { env: 'MCP_HTTP_INTROSPECTION_CLIENT_SECRET', field: 'transport.auth.clientSecret' },
+  { env: 'MCP_HTTP_REQUIRED_SCOPES', field: 'transport.auth.requiredScopes', parse: parseList },
+  { env: 'MCP_SESSION_API_KEY', field: 'transport.sessionApiKey' },
+  { env: 'MCP_SESSION_IDLE_TIMEOUT', field: 'transport.sessionIdleTimeout' },
+  { env: 'MCP_MAX_SESSIONS', field: 'transport.maxSessions', parse: Number },
+  { env: 'MCP_HTTP_METRICS', field: 'transport.metrics', parse: parseBoolean },
+];
+
+function parseBoolean(value: string): boolean {
+  return value === 'true' || value === '1';
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+/**
+ * Set a dotted field (e.g. "transport.port") on a plain object
+ */
+function setField(target: Record<string, any>, field: string, value: unknown): void {
+  const keys = field.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (current[key] === null || typeof current[key] !== 'object' || Array.isArray(current[key])) {
+      current[key] = {};
+    }
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Find the config file path from --config <path>, --config=<path> or ES_MCP_CONFIG
+ */
+export function findConfigPath(argv: string[], env: NodeJS.ProcessEnv): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--config') {
+      if (!argv[i + 1]) {
+        throw new Error('--config requires a file path');
+      }
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith('--config=')) {
+      return argv[i].slice('--config='.length);
+    }
+  }
+  return env.ES_MCP_CONFIG || undefined;
+}
+
+/**
+ * Read a JSON or YAML config file; .yaml/.yml files are parsed as YAML, anything else as JSON
+ */
+export function readConfigFile(file: string): Record<string, any> {
+  let text: string;
+  try {
+    text = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new Error(
+      `Failed to read config file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    const extension = path.extname(file).toLowerCase();
+    parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse config file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // An empty YAML file parses to null
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${file} must contain an object at the top level`);
+  }
+  return parsed as Record<string, any>;
+}
+
+/**
+ * Format validation issues one per line, naming the env var when the value came from one
+ */
+function formatIssues(issues: ZodIssue[], envFields: Map<string, string>): string {
+  return issues
+    .map(issue => {
+      const field = issue.path.join('.');
+      const source = [...envFields].find(([prefix]) => field === prefix || field.startsWith(`${prefix}.`))?.[1];
+      return `  • ${field || '(root)'}${source ? ` (from ${source})` : ''}: ${issue.message}`;
+    })
+    .join('\n');
+}
+
+/**
+ * Load and validate the configuration: config file first, environment variables on top
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): LoadedConfig {
+  const file = findConfigPath(argv, env);
+  const raw: Record<string, any> = file ? readConfigFile(file) : {};
+
+  // Empty variables are treated as unset
+  const envFields = new Map<string, string>();
+  for (const { env: name, field, parse } of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    setField(raw, field, parse ? parse(value) : value);
+    envFields.set(field, name);
+  }
+
+  // Named clusters may also come from their own file
+  if (env.ES_CLUSTERS_FILE) {
+    const clustersFile = readConfigFile(env.ES_CLUSTERS_FILE);
+    raw.clusters = clustersFile.clusters;
+    if (clustersFile.default !== undefined) {
+      raw.defaultCluster = clustersFile.default;
+    }
+    envFields.set('clusters', 'ES_CLUSTERS_FILE');
+  }
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      `Invalid configuration${file ? ` in ${file}` : ''}:\n${formatIssues(result.error.issues, envFields)}`
+    );
+  }
+
+  return { config: result.data, file };
+}
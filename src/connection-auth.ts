@@ -0,0 +1,199 @@
+/**
+ * Connection Auth - Resolve a cluster's endpoint, credentials and TLS settings once
+ * The version detector (native HTTP) and the versioned clients both connect
+ * with the result, so Cloud ID, bearer tokens, client certificates and CA
+ * fingerprint pinning behave the same before and after the version is known.
+ */
+
+import fs from 'fs';
+import https from 'https';
+import type { TLSSocket, PeerCertificate, DetailedPeerCertificate } from 'tls';
+import type { Duplex } from 'stream';
+
+export interface ConnectionAuthConfig {
+  url?: string;
+  cloudId?: string;
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  bearerToken?: string;
+  caCert?: string;
+  caFingerprint?: string;
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export type ConnectionCredentials =
+  | { apiKey: string }
+  | { username: string; password: string }
+  | { bearer: string };
+
+export interface ConnectionTls {
+  ca?: Buffer;
+  cert?: Buffer;
+  key?: Buffer;
+  passphrase?: string;
+  rejectUnauthorized?: boolean;
+}
+
+export interface ResolvedConnection {
+  url: string;
+  auth?: ConnectionCredentials;
+  tls?: ConnectionTls;
+  /** SHA-256 fingerprint of the CA that signed the server certificate, as "AA:BB:..." */
+  caFingerprint?: string;
+}
+
+/**
+ * Decode an Elastic Cloud ID ("name:base64(host$es-uuid$kibana-uuid)") to the Elasticsearch URL
+ */
+export function decodeCloudId(cloudId: string): string {
+  const separator = cloudId.indexOf(':');
+  const encoded = separator >= 0 ? cloudId.slice(separator + 1) : cloudId;
+  const [host, esUuid] = Buffer.from(encoded, 'base64').toString('utf8').split('$');
+  if (!host || !esUuid || !/^[A-Za-z0-9.-]+(:\d+)?$/.test(host) || !/^[A-Za-z0-9]+$/.test(esUuid)) {
+    throw new Error('Invalid Elastic Cloud ID');
+  }
+  return `https://${esUuid}.${host}`;
+}
+
+/**
+ * Normalize a SHA-256 fingerprint to the "AA:BB:..." form Node reports for certificates
+ */
+export function normalizeCaFingerprint(fingerprint: string): string {
+  const hex = fingerprint.replace(/[:\s]/g, '').toUpperCase();
+  if (!/^[0-9A-F]{64}$/.test(hex)) {
+    throw new Error('CA fingerprint must be a SHA-256 digest (64 hex characters, colons optional)');
+  }
+  return hex.match(/../g)!.join(':');
+}
+
+/**
+ * The Elasticsearch URL of a cluster: its url, or the one encoded in its Cloud ID
+ */
+export function resolveNodeUrl(config: Pick<ConnectionAuthConfig, 'url' | 'cloudId'>): string {
+  if (config.url) {
+    return config.url;
+  }
+  if (config.cloudId) {
+    return decodeCloudId(config.cloudId);
+  }
+  throw new Error('Either url or cloudId must be configured');
+}
+
+function readFile(file: string, description: string): Buffer {
+  try {
+    return fs.readFileSync(file);
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${description} file ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Resolve the endpoint, credentials and TLS settings of a cluster, reading certificate files
+ */
+export function resolveConnection(config: ConnectionAuthConfig): ResolvedConnection {
+  const resolved: ResolvedConnection = { url: resolveNodeUrl(config) };
+
+  if (config.apiKey) {
+    resolved.auth = { apiKey: config.apiKey };
+  } else if (config.bearerToken) {
+    resolved.auth = { bearer: config.bearerToken };
+  } else if (config.username && config.password) {
+    resolved.auth = { username: config.username, password: config.password };
+  }
+
+  const tls: ConnectionTls = {};
+  if (config.caCert) {
+    tls.ca = readFile(config.caCert, 'CA certificate');
+  }
+  if (config.clientCert && config.clientKey) {
+    tls.cert = readFile(config.clientCert, 'client certificate');
+    tls.key = readFile(config.clientKey, 'client key');
+    if (config.clientKeyPassphrase) {
+      tls.passphrase = config.clientKeyPassphrase;
+    }
+  }
+
+  if (config.caFingerprint) {
+    resolved.caFingerprint = normalizeCaFingerprint(config.caFingerprint);
+  }
+
+  // A pinned CA is usually self-signed; the fingerprint check replaces chain validation unless a CA file is given
+  const rejectUnauthorized = config.rejectUnauthorized ?? (resolved.caFingerprint && !tls.ca ? false : undefined);
+  if (rejectUnauthorized === false) {
+    tls.rejectUnauthorized = false;
+  }
+
+  if (Object.keys(tls).length > 0) {
+    resolved.tls = tls;
+  }
+  return resolved;
+}
+
+/**
+ * The Authorization header value for resolved credentials
+ */
+export function authorizationHeader(auth: ConnectionCredentials | undefined): string | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  if ('apiKey' in auth) {
+    return `ApiKey ${auth.apiKey}`;
+  }
+  if ('bearer' in auth) {
+    return `Bearer ${auth.bearer}`;
+  }
+  return `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+}
+
+/**
+ * The root of the certificate chain the server presented (same walk as the Elasticsearch clients)
+ */
+function getIssuerCertificate(socket: TLSSocket): PeerCertificate | null {
+  let certificate: DetailedPeerCertificate | undefined = socket.getPeerCertificate(true);
+  while (certificate && Object.keys(certificate).length > 0) {
+    if (certificate.issuerCertificate === undefined) {
+      return null;
+    }
+    if (certificate.fingerprint256 === certificate.issuerCertificate.fingerprint256) {
+      break;
+    }
+    certificate = certificate.issuerCertificate;
+  }
+  return certificate ?? null;
+}
+
+/**
+ * HTTPS agent that closes connections whose CA does not match the pinned fingerprint
+ * Used by the version detector and by clients without a native caFingerprint option
+ */
+class PinnedCaAgent extends https.Agent {
+  constructor(options: https.AgentOptions, private fingerprint: string) {
+    super(options);
+  }
+
+  createConnection(options: any, callback?: any): Duplex {
+    const socket = (https.Agent.prototype as any).createConnection.call(this, options, callback) as TLSSocket;
+    socket.once('secureConnect', () => {
+      if (socket.isSessionReused()) {
+        return;
+      }
+      const issuer = getIssuerCertificate(socket);
+      if (!issuer) {
+        socket.destroy(new Error('Invalid or malformed certificate'));
+      } else if (issuer.fingerprint256 !== this.fingerprint) {
+        socket.destroy(new Error('Server certificate CA fingerprint does not match the value configured in caFingerprint'));
+      }
+    });
+    return socket;
+  }
+}
+
+export function createPinnedCaAgent(options: https.AgentOptions, caFingerprint: string): https.Agent {
+  return new PinnedCaAgent(options, caFingerprint);
+}
@@ -0,0 +1,153 @@
+/**
+ * Cursor Store - Server-held pagination cursors for point-in-time and scroll searches
+ * Cursors are addressed by opaque tokens and closed automatically when they expire
+ */
+
+import { randomUUID } from 'crypto';
+
+export type CursorKind = 'pit' | 'scroll';
+
+export interface SearchCursor {
+  token: string;
+  kind: CursorKind;
+  /** Cluster the PIT or scroll lives on */
+  cluster: string;
+  index: string;
+  queryBody: Record<string, any>;
+  pageSize: number;
+  keepAlive: string;
+  pitId?: string;
+  scrollId?: string;
+  searchAfter?: any[];
+  page: number;
+  returned: number;
+  expiresAt: number;
+}
+
+export type CursorCloser = (cursor: SearchCursor) => Promise<void>;
+
+/**
+ * Parse an Elasticsearch time value (e.g. "30s", "1m", "2h") to milliseconds
+ */
+export function parseDurationMs(value: string): number {
+  const match = value.trim().match(/^(\d+)(ms|s|m|h|d)$/);
+  if (!match) return 60_000;
+
+  const amount = parseInt(match[1], 10);
+  const multipliers: Record<string, number> = {
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  return amount * multipliers[match[2]];
+}
+
+export class CursorStore {
+  private cursors = new Map<string, SearchCursor>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor(
+    private closer: CursorCloser,
+    private maxCursors: number = 100,
+    sweepIntervalMs: number = 30_000
+  ) {
+    this.sweeper = setInterval(() => {
+      void this.sweep();
+    }, sweepIntervalMs);
+    // Do not keep the process alive just for cursor cleanup
+    this.sweeper.unref();
+  }
+
+  /**
+   * Register a new cursor and return its opaque token
+   */
+  async create(cursor: Omit<SearchCursor, 'token' | 'expiresAt'>): Promise<SearchCursor> {
+    // Evict the cursor closest to expiry when full
+    if (this.cursors.size >= this.maxCursors) {
+      const oldest = [...this.cursors.values()].sort((a, b) => a.expiresAt - b.expiresAt)[0];
+      if (oldest) {
+        await this.close(oldest.token);
+      }
+    }
+
+    const stored: SearchCursor = {
+      ...cursor,
+      token: randomUUID(),
+      expiresAt: Date.now() + parseDurationMs(cursor.keepAlive),
+    };
+    this.cursors.set(stored.token, stored);
+    return stored;
+  }
+
+  /**
+   * Look up a live cursor, closing it first if it has expired
+   */
+  async get(token: string): Promise<SearchCursor | undefined> {
+    const cursor = this.cursors.get(token);
+    if (!cursor) return undefined;
+
+    if (cursor.expiresAt <= Date.now()) {
+      await this.close(token);
+      return undefined;
+    }
+
+    return cursor;
+  }
+
+  /**
+   * Extend a cursor's lifetime after it has been used
+   */
+  touch(cursor: SearchCursor): void {
+    cursor.expiresAt = Date.now() + parseDurationMs(cursor.keepAlive);
+  }
+
+  /**
+   * Remove a cursor and release its server-side resources
+   */
+  async close(token: string): Promise<boolean> {
+    const cursor = this.cursors.get(token);
+    if (!cursor) return false;
+
+    this.cursors.delete(token);
+    try {
+      await this.closer(cursor);
+    } catch (error) {
+      // The PIT or scroll may already be gone on the cluster side
+      console.error(
+        `Failed to close ${cursor.kind} cursor ${token}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Close every expired cursor
+   */
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    const expired = [...this.cursors.values()].filter(c => c.expiresAt <= now);
+    for (const cursor of expired) {
+      await this.close(cursor.token);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Close all cursors and stop the sweeper
+   */
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    for (const token of [...this.cursors.keys()]) {
+      await this.close(token);
+    }
+  }
+
+  get size(): number {
+    return this.cursors.size;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Feature Probe - Find out which features a cluster really has
+ * The version number says what a release can do; X-Pack, the license and the
+ * security setup decide what this cluster actually does. The probe asks
+ * _xpack, _license and _security/_authenticate (or the OpenSearch plugin list
+ * and security plugin) and caches the answer for a TTL.
+ */
+
+import type { Client } from '@elastic/elasticsearch';
+import type { ESVersionInfo } from './version-detector.js';
+
+export type ProbedFeatureName =
+  | 'data_streams'
+  | 'ilm'
+  | 'ism'
+  | 'sql'
+  | 'ppl'
+  | 'searchable_snapshots'
+  | 'rollup'
+  | 'security';
+
+export interface ProbedFeature {
+  available: boolean;
+  reason?: string;
+}
+
+export interface FeatureProbeResult {
+  probedAt: number;
+  /** null when X-Pack is not installed or could not be queried */
+  license: { type: string; status: string; expiresAt?: number } | null;
+  security: { enabled: boolean; user?: string; roles?: string[]; reason?: string } | null;
+  /** Features the probe could decide; anything missing falls back to the version check */
+  features: Partial<Record<ProbedFeatureName, ProbedFeature>>;
+  /** Probe requests that failed for reasons other than a missing feature */
+  errors: string[];
+}
+
+/**
+ * _xpack feature names for the features tools depend on
+ */
+const XPACK_FEATURES: Array<[ProbedFeatureName, string]> = [
+  ['data_streams', 'data_streams'],
+  ['ilm', 'ilm'],
+  ['sql', 'sql'],
+  ['searchable_snapshots', 'searchable_snapshots'],
+  ['rollup', 'rollup'],
+  ['security', 'security'],
+];
+
+/**
+ * OpenSearch plugin components that provide a feature
+ */
+const OPENSEARCH_PLUGINS: Array<[ProbedFeatureName, string[]]> = [
+  ['ism', ['opensearch-index-management', 'opendistro-index-management']],
+  ['sql', ['opensearch-sql', 'opendistro-sql']],
+  ['ppl', ['opensearch-sql', 'opendistro-sql']],
+  ['security', ['opensearch-security', 'opendistro_security']],
+];
+
+function statusCode(error: unknown): number | undefined {
+  return (error as any)?.meta?.statusCode ?? (error as any)?.statusCode;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 400/404/405 mean the endpoint does not exist on this cluster; 401/403 mean we may not ask
+ */
+function isMissingEndpoint(error: unknown): boolean {
+  const code = statusCode(error);
+  return code === 400 || code === 404 || code === 405 || code === 410;
+}
+
+/**
+ * Explain why an X-Pack feature is off, from its _xpack entry and the license
+ */
+function xpackReason(
+  name: string,
+  entry: { available?: boolean; enabled?: boolean },
+  license: FeatureProbeResult['license']
+): string | undefined {
+  if (entry.available === false) {
+    if (license?.status && license.status !== 'active') {
+      return `${name} is unavailable because the ${license.type} license is ${license.status}`;
+    }
+    return `${name} is not included in the ${license?.type || 'current'} license`;
+  }
+  if (entry.enabled === false) {
+    return `${name} is disabled in the cluster settings (xpack.${name}.enabled: false)`;
+  }
+  return undefined;
+}
+
+async function probeElasticsearch(esClient: Client, version: ESVersionInfo, result: FeatureProbeResult) {
+  const legacyPaths = version.major < 7;
+
+  // _xpack lists every X-Pack feature with its license availability and enabled flag
+  let xpack: any = null;
+  try {
+    xpack = await esClient.transport.request({ method: 'GET', path: '/_xpack' });
+  } catch (error) {
+    if (isMissingEndpoint(error)) {
+      // OSS distribution: none of the X-Pack features exist
+      for (const [feature, name] of XPACK_FEATURES) {
+        result.features[feature] = { available: false, reason: `X-Pack is not installed (OSS distribution), so ${name} is unavailable` };
+      }
+      result.security = { enabled: false, reason: 'X-Pack is not installed' };
+      return;
+    }
+    result.errors.push(`GET /_xpack: ${errorMessage(error)}`);
+  }
+
+  try {
+    const response: any = await esClient.transport.request({
+      method: 'GET',
+      path: legacyPaths ? '/_xpack/license' : '/_license',
+    });
+    const license = response?.license;
+    if (license) {
+      result.license = {
+        type: license.type,
+        status: license.status,
+        ...(typeof license.expiry_date_in_millis === 'number' && { expiresAt: license.expiry_date_in_millis }),
+      };
+    }
+  } catch (error) {
+    result.errors.push(`GET ${legacyPaths ? '/_xpack/license' : '/_license'}: ${errorMessage(error)}`);
+  }
+
+  if (xpack?.features) {
+    for (const [feature, name] of XPACK_FEATURES) {
+      const entry = xpack.features[name];
+      // Features older releases do not list are left to the version check
+      if (!entry) continue;
+      const reason = xpackReason(name, entry, result.license);
+      result.features[feature] = reason ? { available: false, reason } : { available: true };
+    }
+  }
+
+  // Security may be licensed but switched off; _authenticate tells us who we are when it is on
+  const authenticatePath = legacyPaths ? '/_xpack/security/_authenticate' : '/_security/_authenticate';
+  try {
+    const user: any = await esClient.transport.request({ method: 'GET', path: authenticatePath });
+    result.security = { enabled: true, user: user?.username, roles: user?.roles };
+  } catch (error) {
+    const code = statusCode(error);
+    if (isMissingEndpoint(error) || code === 500) {
+      // Answered with "security is not enabled" when xpack.security.enabled is false
+      result.security = {
+        enabled: false,
+        reason: result.features.security?.reason || 'security is disabled (xpack.security.enabled: false)',
+      };
+    } else {
+      result.errors.push(`GET ${authenticatePath}: ${errorMessage(error)}`);
+    }
+  }
+}
+
+async function probeOpenSearch(esClient: Client, result: FeatureProbeResult) {
+  // Plugins are installed per node; a feature counts when any node has the plugin
+  try {
+    const plugins: any = await esClient.transport.request({
+      method: 'GET',
+      path: '/_cat/plugins',
+      querystring: { format: 'json' },
+    });
+    const components = new Set<string>(
+      (Array.isArray(plugins) ? plugins : []).map((plugin: any) => plugin.component)
+    );
+    for (const [feature, names] of OPENSEARCH_PLUGINS) {
+      result.features[feature] = names.some(name => components.has(name))
+        ? { available: true }
+        : { available: false, reason: `the ${names[0]} plugin is not installed` };
+    }
+  } catch (error) {
+    result.errors.push(`GET /_cat/plugins: ${errorMessage(error)}`);
+  }
+
+  try {
+    const info: any = await esClient.transport.request({ method: 'GET', path: '/_plugins/_security/authinfo' });
+    result.security = { enabled: true, user: info?.user_name, roles: info?.roles };
+  } catch (error) {
+    if (isMissingEndpoint(error)) {
+      result.security = { enabled: false, reason: 'the security plugin is not installed or disabled' };
+    } else {
+      result.errors.push(`GET /_plugins/_security/authinfo: ${errorMessage(error)}`);
+    }
+  }
+}
+
+/**
+ * Probe the cluster for X-Pack features, license and security
+ */
+export async function probeFeatures(esClient: Client, version: ESVersionInfo): Promise<FeatureProbeResult> {
+  const result: FeatureProbeResult = {
+    probedAt: Date.now(),
+    license: null,
+    security: null,
+    features: {},
+    errors: [],
+  };
+
+  if (version.distribution === 'opensearch') {
+    await probeOpenSearch(esClient, result);
+  } else {
+    await probeElasticsearch(esClient, version, result);
+  }
+
+  return result;
+}
+
+/**
+ * Cached probe: the cluster is asked again once the result is older than the TTL
+ */
+export class FeatureProbe {
+  private cached: FeatureProbeResult | null = null;
+  private pending: Promise<FeatureProbeResult> | null = null;
+
+  constructor(
+    private esClient: Client,
+    private version: ESVersionInfo,
+    private ttlMs: number
+  ) {}
+
+  /**
+   * Get the probe result, probing again when it is missing or expired
+   */
+  async get(): Promise<FeatureProbeResult> {
+    if (this.cached && Date.now() - this.cached.probedAt < this.ttlMs) {
+      return this.cached;
+    }
+
+    // Concurrent callers share one probe
+    if (!this.pending) {
+      this.pending = probeFeatures(this.esClient, this.version)
+        .then(result => {
+          this.cached = result;
+          return result;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+
+    return this.pending;
+  }
+
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+}
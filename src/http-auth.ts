@@ -0,0 +1,152 @@
+/**
+ * HTTP Auth - Protect the HTTP transport and take per-session Elasticsearch credentials
+ * Requests to /mcp need a bearer token: one of the configured static tokens, or an
+ * OAuth access token validated at a token introspection endpoint (RFC 7662).
+ * A session may also bring its own Elasticsearch API key, so the cluster's RBAC
+ * applies to each user instead of the server's shared credentials.
+ */
+
+import crypto from 'crypto';
+import type { RequestHandler } from 'express';
+import { requireBearerAuth } from '@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js';
+import { InvalidTokenError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import type { OAuthTokenVerifier } from '@modelcontextprotocol/sdk/server/auth/provider.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { ElasticsearchConfig } from './server.js';
+
+/** Header a session sends its own Elasticsearch API key in */
+export const SESSION_API_KEY_HEADER = 'x-elasticsearch-api-key';
+
+/** Introspection results are reused for at most this long */
+const INTROSPECTION_CACHE_MS = 60_000;
+
+export type HttpAuthConfig = NonNullable<NonNullable<ElasticsearchConfig['transport']>['auth']>;
+
+function digest(value: string): Buffer {
+  return crypto.createHash('sha256').update(value).digest();
+}
+
+/**
+ * Accept the configured static tokens, then fall back to token introspection if configured
+ */
+class HttpTokenVerifier implements OAuthTokenVerifier {
+  private tokenDigests: Buffer[];
+  private introspected = new Map<string, { info: AuthInfo; until: number }>();
+
+  constructor(private auth: HttpAuthConfig) {
+    this.tokenDigests = (auth.tokens || []).map(digest);
+  }
+
+  async verifyAccessToken(token: string): Promise<AuthInfo> {
+    // Compare digests in constant time so tokens cannot be guessed byte by byte
+    const tokenDigest = digest(token);
+    const index = this.tokenDigests.findIndex(candidate => crypto.timingSafeEqual(candidate, tokenDigest));
+    if (index >= 0) {
+      // Static tokens do not expire; the SDK requires an expiry, so report one an hour ahead
+      return {
+        token,
+        clientId: `static-token-${index + 1}`,
+        scopes: this.auth.requiredScopes || [],
+        expiresAt: Math.floor(Date.now() / 1000) + 3600,
+      };
+    }
+
+    if (this.auth.introspectionUrl) {
+      return this.introspect(token, tokenDigest.toString('hex'));
+    }
+    throw new InvalidTokenError('Invalid token');
+  }
+
+  private async introspect(token: string, key: string): Promise<AuthInfo> {
+    const now = Date.now();
+    const cached = this.introspected.get(key);
+    if (cached && cached.until > now) {
+      return cached.info;
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    };
+    if (this.auth.clientId) {
+      const credentials = `${encodeURIComponent(this.auth.clientId)}:${encodeURIComponent(this.auth.clientSecret || '')}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    let body: any;
+    try {
+      const response = await fetch(this.auth.introspectionUrl!, {
+        method: 'POST',
+        headers,
+        body: new URLSearchParams({ token, token_type_hint: 'access_token' }).toString(),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } catch (error) {
+      throw new ServerError(
+        `Token introspection failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!body?.active) {
+      throw new InvalidTokenError('Token is not active');
+    }
+
+    const until = typeof body.exp === 'number'
+      ? Math.min(body.exp * 1000, now + INTROSPECTION_CACHE_MS)
+      : now + INTROSPECTION_CACHE_MS;
+    const info: AuthInfo = {
+      token,
+      clientId: body.client_id || body.sub || 'unknown',
+      scopes: typeof body.scope === 'string' ? body.scope.split(' ').filter(Boolean) : [],
+      // Tokens without exp are trusted until the cached result expires
+      expiresAt: typeof body.exp === 'number' ? body.exp : Math.floor(until / 1000),
+    };
+
+    for (const [cachedKey, entry] of this.introspected) {
+      if (entry.until <= now) {
+        this.introspected.delete(cachedKey);
+      }
+    }
+    this.introspected.set(key, { info, until });
+    return info;
+  }
+}
+
+/**
+ * Middleware that requires a valid bearer token, or undefined when HTTP auth is not configured
+ */
+export function createHttpAuthMiddleware(auth: HttpAuthConfig | undefined): RequestHandler | undefined {
+  if (!auth) {
+    return undefined;
+  }
+  return requireBearerAuth({
+    verifier: new HttpTokenVerifier(auth),
+    requiredScopes: auth.requiredScopes,
+  });
+}
+
+/**
+ * The configuration of a session that brings its own API key: every cluster uses that key
+ */
+export function sessionConfig(config: ElasticsearchConfig, apiKey: string): ElasticsearchConfig {
+  const withKey = <T extends { apiKey?: string; username?: string; password?: string; bearerToken?: string }>(
+    settings: T
+  ): T => ({ ...settings, apiKey, username: undefined, password: undefined, bearerToken: undefined });
+
+  return {
+    ...withKey(config),
+    ...(config.clusters && {
+      clusters: Object.fromEntries(Object.entries(config.clusters).map(([name, cluster]) => [name, withKey(cluster)])),
+    }),
+  };
+}
+
+/**
+ * Identify who opened a session, so its session ID cannot be used with other credentials
+ */
+export function sessionOwner(auth: AuthInfo | undefined, apiKey: string | undefined): string {
+  return digest(`${auth?.clientId ?? ''}\n${apiKey ?? ''}`).toString('hex');
+}
@@ -0,0 +1,435 @@
+/**
+ * ILM Analyzer - Index lifecycle state and stuck-phase diagnosis
+ * Groups _ilm/explain results by policy, phase and action, and finds indices
+ * that are in the ERROR step or have waited too long on a step.
+ * OpenSearch ISM results are analyzed too, once normalized to the ILM shape
+ */
+
+export type LifecycleKind = 'ILM' | 'ISM';
+
+export interface IlmIndexState {
+  index: string;
+  managed: boolean;
+  policy?: string;
+  phase?: string;
+  action?: string;
+  step?: string;
+  age?: string;
+  step_age_ms?: number;
+  failed_step?: string;
+  error_type?: string;
+  error_reason?: string;
+  retry_count?: number;
+  auto_retryable?: boolean;
+}
+
+export interface IlmGroup {
+  policy: string;
+  phase: string;
+  action: string;
+  count: number;
+  sample_indices: string[];
+}
+
+export interface IlmStuckIndex {
+  state: IlmIndexState;
+  reason: 'error' | 'waiting';
+  hint: string;
+}
+
+export interface IlmSummary {
+  lifecycle: LifecycleKind;
+  total: number;
+  managed: number;
+  unmanaged: number;
+  policies: string[];
+  groups: IlmGroup[];
+  errors: IlmStuckIndex[];
+  waiting: IlmStuckIndex[];
+  unmanaged_indices: string[];
+}
+
+/**
+ * What an index is usually waiting for on a step, and where to look
+ */
+const STEP_HINTS: Record<string, string> = {
+  'check-rollover-ready':
+    'Rollover conditions not met yet, or the rollover target is misconfigured: index.lifecycle.rollover_alias must ' +
+    'point to this index as write index (or the index must be the data stream write index)',
+  'check-allocation':
+    'Waiting for shards to move to nodes matching the allocate action; check explain_allocation and node attributes',
+  'check-migration':
+    'Waiting for shards to move to the next data tier; check that nodes with that tier role exist and have disk space',
+  'wait-for-active-shards':
+    'Waiting for shard copies to become active after rollover; check cluster health and unassigned replicas',
+  'check-shrink-allocation':
+    'Shrink needs a copy of every shard on one node; check disk space and allocation filters on that node',
+  'shrunk-shards-allocated':
+    'Waiting for the shrunken index to be allocated; check explain_allocation for the shrink-* index',
+  'wait-for-shard-history-leases':
+    'Waiting for CCR shard history leases to expire before shrinking or deleting',
+  'wait-for-follow-shard-tasks':
+    'Waiting for the follower index to catch up with its leader',
+  'wait-for-snapshot':
+    'The delete phase waits until the referenced SLM policy has taken a snapshot; check GET _slm/policy',
+  'wait-for-index-color':
+    'Waiting for the index to turn green or yellow; check unassigned shards',
+  'segment-count':
+    'Force merge still running or segments not merged yet; check GET _tasks?actions=*forcemerge*',
+  'wait-until-replicated':
+    'Waiting for all replicas to be allocated before continuing',
+};
+
+/**
+ * ISM step names and what an index is usually waiting for on them
+ */
+const ISM_STEP_HINTS: Record<string, string> = {
+  'attempt_rollover':
+    'Rollover conditions not met yet, or the rollover target is misconfigured: ' +
+    'plugins.index_state_management.rollover_alias must point to this index as write index ' +
+    '(or the index must be the data stream write index)',
+  'attempt_allocation':
+    'Waiting for shards to move to nodes matching the allocation action; check explain_allocation and node attributes',
+  'attempt_move_shards_step':
+    'Shrink needs a copy of every shard on one node; check disk space and allocation filters on that node',
+  'wait_for_move_shards_step':
+    'Waiting for shards to move to the shrink node; check explain_allocation',
+  'wait_for_shrink_step':
+    'Waiting for the shrunken index to be allocated; check explain_allocation for the shrink target',
+  'wait_for_force_merge':
+    'Force merge still running or segments not merged yet; check GET _tasks?actions=*forcemerge*',
+  'wait_for_snapshot':
+    'Waiting for the snapshot to finish; check GET _snapshot/<repository>/_current',
+  'attempt_set_replica_count':
+    'Waiting for the replica count change; check unassigned replicas',
+};
+
+interface LifecycleDialect {
+  stepHints: Record<string, string>;
+  defaultHint: string;
+  errorHint: (index: string) => string;
+  /** Steps an index sits on between states or phases; waiting there is not stuck */
+  idleSteps: string[];
+  rolloverStep: string;
+}
+
+const DIALECTS: Record<LifecycleKind, LifecycleDialect> = {
+  ILM: {
+    stepHints: STEP_HINTS,
+    defaultHint: 'Check the step with GET <index>/_ilm/explain and the cluster state it depends on',
+    errorHint: (index) => `Fix the cause above, then retry with POST ${index}/_ilm/retry`,
+    idleSteps: ['complete'],
+    rolloverStep: 'check-rollover-ready',
+  },
+  ISM: {
+    stepHints: ISM_STEP_HINTS,
+    defaultHint: 'Check the step with GET _plugins/_ism/explain/<index> and the cluster state it depends on',
+    errorHint: (index) => `Fix the cause above, then retry with POST _plugins/_ism/retry/${index}`,
+    idleSteps: ['attempt_transition_step'],
+    rolloverStep: 'attempt_rollover',
+  },
+};
+
+/**
+ * Parse an Elasticsearch time value (e.g. "30d", "12h") to milliseconds
+ */
+function parseTimeValueMs(value: string | undefined): number | null {
+  if (!value) return null;
+  const match = String(value).trim().match(/^(\d+(?:\.\d+)?)(nanos|micros|ms|s|m|h|d)$/);
+  if (!match) return null;
+
+  const multipliers: Record<string, number> = {
+    nanos: 1 / 1_000_000,
+    micros: 1 / 1000,
+    ms: 1,
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+  };
+
+  return parseFloat(match[1]) * multipliers[match[2]];
+}
+
+/**
+ * Format milliseconds as a short duration
+ */
+export function formatDuration(ms: number): string {
+  const hours = ms / (60 * 60 * 1000);
+  if (hours >= 48) return `${(hours / 24).toFixed(1)}d`;
+  if (hours >= 1) return `${hours.toFixed(1)}h`;
+  return `${Math.round(ms / 60000)}m`;
+}
+
+/**
+ * Read the rollover age condition of a policy phase, if any
+ * ILM uses max_age, ISM min_index_age
+ */
+function rolloverMaxAgeMs(policy: any, phase: string | undefined): number | null {
+  const rollover = policy?.policy?.phases?.[phase || 'hot']?.actions?.rollover;
+  return parseTimeValueMs(rollover?.max_age ?? rollover?.min_index_age);
+}
+
+/**
+ * Normalize one _ilm/explain entry
+ */
+function toIndexState(index: string, entry: any, now: number): IlmIndexState {
+  const stepTime = entry.step_time_millis ?? entry.phase_time_millis;
+  return {
+    index,
+    managed: !!entry.managed,
+    policy: entry.policy,
+    phase: entry.phase,
+    action: entry.action,
+    step: entry.step,
+    age: entry.age,
+    step_age_ms: typeof stepTime === 'number' ? Math.max(0, now - stepTime) : undefined,
+    failed_step: entry.failed_step,
+    error_type: entry.step_info?.type,
+    error_reason: entry.step_info?.reason ?? entry.step_info?.message,
+    retry_count: entry.failed_step_retry_count,
+    auto_retryable: entry.is_auto_retryable_error,
+  };
+}
+
+/**
+ * Analyze an _ilm/explain response
+ * @param explain _ilm/explain response
+ * @param policies _ilm/policy response for the policies in use (used for rollover max_age)
+ * @param stuckAfterMs How long an index may wait on one step before it counts as stuck
+ * @param now Current time in milliseconds
+ * @param lifecycle ILM, or ISM for normalized OpenSearch responses
+ */
+export function analyzeIlmExplain(
+  explain: any,
+  policies: Record<string, any>,
+  stuckAfterMs: number,
+  now: number = Date.now(),
+  lifecycle: LifecycleKind = 'ILM'
+): IlmSummary {
+  const dialect = DIALECTS[lifecycle];
+  const summary: IlmSummary = {
+    lifecycle,
+    total: 0,
+    managed: 0,
+    unmanaged: 0,
+    policies: [],
+    groups: [],
+    errors: [],
+    waiting: [],
+    unmanaged_indices: [],
+  };
+
+  const groups = new Map<string, IlmGroup>();
+  const policyNames = new Set<string>();
+
+  for (const [index, entry] of Object.entries<any>(explain?.indices || {})) {
+    summary.total++;
+    const state = toIndexState(index, entry, now);
+
+    if (!state.managed) {
+      summary.unmanaged++;
+      summary.unmanaged_indices.push(index);
+      continue;
+    }
+
+    summary.managed++;
+    if (state.policy) policyNames.add(state.policy);
+
+    const key = `${state.policy}\u0000${state.phase}\u0000${state.action}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        policy: state.policy || 'unknown',
+        phase: state.phase || 'unknown',
+        action: state.action || 'unknown',
+        count: 0,
+        sample_indices: [],
+      });
+    }
+    const group = groups.get(key)!;
+    group.count++;
+    if (group.sample_indices.length < 3) {
+      group.sample_indices.push(index);
+    }
+
+    if (state.step === 'ERROR') {
+      summary.errors.push({ state, reason: 'error', hint: dialect.errorHint(index) });
+      continue;
+    }
+
+    // Finished phases wait for the next phase's min_age; that is not stuck
+    if (dialect.idleSteps.includes(state.step || '') || state.step_age_ms === undefined) continue;
+
+    // The write index waits on rollover for as long as max_age allows
+    let allowedMs = stuckAfterMs;
+    if (state.step === dialect.rolloverStep && state.policy) {
+      allowedMs += rolloverMaxAgeMs(policies[state.policy], state.phase) ?? 0;
+    }
+
+    if (state.step_age_ms > allowedMs) {
+      summary.waiting.push({
+        state,
+        reason: 'waiting',
+        hint: dialect.stepHints[state.step || ''] || dialect.defaultHint,
+      });
+    }
+  }
+
+  summary.policies = Array.from(policyNames).sort();
+  summary.groups = Array.from(groups.values()).sort((a, b) =>
+    a.policy.localeCompare(b.policy) || b.count - a.count
+  );
+  summary.errors.sort((a, b) => (b.state.step_age_ms || 0) - (a.state.step_age_ms || 0));
+  summary.waiting.sort((a, b) => (b.state.step_age_ms || 0) - (a.state.step_age_ms || 0));
+
+  return summary;
+}
+
+/**
+ * Format the lifecycle overview grouped by policy, phase and action
+ */
+export function formatIlmSummary(summary: IlmSummary): string {
+  let text = `♻️  ${summary.lifecycle} Status\n`;
+  text += `${'='.repeat(60)}\n\n`;
+
+  const statusIcon = summary.errors.length > 0 ? '🔴' : summary.waiting.length > 0 ? '🟡' : '🟢';
+  text += `Indices:   ${summary.total.toLocaleString()} (managed: ${summary.managed.toLocaleString()} | unmanaged: ${summary.unmanaged.toLocaleString()})\n`;
+  text += `Policies:  ${summary.policies.length > 0 ? summary.policies.join(', ') : 'none'}\n`;
+  text += `Status:    ${statusIcon} ${summary.errors.length} in ERROR | ${summary.waiting.length} waiting too long\n\n`;
+
+  if (summary.groups.length > 0) {
+    text += `By Policy / Phase / Action:\n`;
+    text += `${'─'.repeat(60)}\n`;
+
+    let currentPolicy = '';
+    for (const group of summary.groups) {
+      if (group.policy !== currentPolicy) {
+        currentPolicy = group.policy;
+        text += `\n📋 ${group.policy}\n`;
+      }
+      text += `  ${group.phase} → ${group.action}: ${group.count.toLocaleString()} indices`;
+      text += ` (e.g. ${group.sample_indices.join(', ')})\n`;
+    }
+    text += `\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Format indices in ERROR or stuck on a step, with the policy definition next to them
+ */
+export function formatIlmProblems(
+  summary: IlmSummary,
+  policies: Record<string, any>,
+  maxIndices: number = 20,
+  showPolicies: boolean = true
+): string {
+  const stepHints = DIALECTS[summary.lifecycle].stepHints;
+  let text = '';
+
+  if (summary.errors.length > 0) {
+    text += `🔴 Indices in ERROR (${summary.errors.length})\n`;
+    text += `${'─'.repeat(60)}\n`;
+
+    for (const { state, hint } of summary.errors.slice(0, maxIndices)) {
+      text += `\n${state.index}  [${state.policy}: ${state.phase} → ${state.action}]\n`;
+      text += `  • Failed step: ${state.failed_step || 'unknown'}`;
+      if (state.step_age_ms !== undefined) {
+        text += ` (for ${formatDuration(state.step_age_ms)})`;
+      }
+      text += `\n`;
+      if (state.error_type || state.error_reason) {
+        const reason = (state.error_reason || '').length > 300
+          ? state.error_reason!.slice(0, 297) + '...'
+          : state.error_reason;
+        text += `  • Error: ${state.error_type || 'error'}${reason ? `: ${reason}` : ''}\n`;
+      }
+      if (state.retry_count) {
+        text += `  • Retries: ${state.retry_count}${state.auto_retryable ? ' (auto-retrying)' : ''}\n`;
+      }
+      if (state.failed_step && stepHints[state.failed_step]) {
+        text += `  • Step: ${stepHints[state.failed_step]}\n`;
+      }
+      text += `  • Fix: ${hint}\n`;
+    }
+
+    if (summary.errors.length > maxIndices) {
+      text += `\n... and ${summary.errors.length - maxIndices} more indices in ERROR\n`;
+    }
+    text += `\n`;
+  }
+
+  if (summary.waiting.length > 0) {
+    text += `🟡 Indices Waiting Too Long on a Step (${summary.waiting.length})\n`;
+    text += `${'─'.repeat(60)}\n`;
+
+    for (const { state, hint } of summary.waiting.slice(0, maxIndices)) {
+      text += `\n${state.index}  [${state.policy}: ${state.phase} → ${state.action}]\n`;
+      text += `  • Step: ${state.step} for ${formatDuration(state.step_age_ms || 0)}`;
+      if (state.age) {
+        text += ` (index age ${state.age})`;
+      }
+      text += `\n`;
+      if (state.error_reason) {
+        text += `  • Info: ${state.error_reason}\n`;
+      }
+      text += `  • Likely cause: ${hint}\n`;
+    }
+
+    if (summary.waiting.length > maxIndices) {
+      text += `\n... and ${summary.waiting.length - maxIndices} more waiting indices\n`;
+    }
+    text += `\n`;
+  }
+
+  if (text === '') {
+    return `✅ No indices in ERROR or stuck on a step\n`;
+  }
+
+  // Policy definitions for the policies involved
+  if (showPolicies) {
+    const involved = new Set(
+      [...summary.errors, ...summary.waiting]
+        .map(item => item.state.policy)
+        .filter((policy): policy is string => !!policy)
+    );
+
+    if (involved.size > 0) {
+      text += `📜 Policy Definitions\n`;
+      text += `${'─'.repeat(60)}\n`;
+      for (const name of involved) {
+        text += `\n${name}:\n`;
+        text += policies[name]
+          ? formatPolicyPhases(policies[name])
+          : `  (policy not found - indices reference a missing policy)\n`;
+      }
+      text += `\n`;
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Format a policy's phases compactly: phase (min_age): action {settings}
+ */
+export function formatPolicyPhases(policy: any): string {
+  const phases = policy?.policy?.phases || {};
+  const order = ['hot', 'warm', 'cold', 'frozen', 'delete'];
+  // ISM states keep their declared order
+  const rank = (phase: string) => (order.includes(phase) ? order.indexOf(phase) : order.length);
+  const names = Object.keys(phases).sort((a, b) => rank(a) - rank(b));
+
+  let text = '';
+  for (const phase of names) {
+    const definition = phases[phase] || {};
+    const actions = Object.entries<any>(definition.actions || {})
+      .map(([action, settings]) =>
+        settings && Object.keys(settings).length > 0 ? `${action} ${JSON.stringify(settings)}` : action
+      );
+    text += `  ${phase} (min_age ${definition.min_age || '0ms'}): ${actions.join(', ') || 'no actions'}\n`;
+  }
+
+  return text || `  (no phases)\n`;
+}
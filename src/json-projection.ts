@@ -0,0 +1,173 @@
+/**
+ * JSON Projection - Select parts of API responses
+ * Supports a small JSONPath-like syntax that also maps onto Elasticsearch filter_path:
+ *   nodes.*.jvm.mem.heap_used_percent   '*' matches any key
+ *   **.status                           '**' matches any depth
+ *   $.hits.hits[*]._source.title        '$' root, '[*]' every element
+ *   hits.hits[0]._id                    '[n]' a single element (client-side only)
+ *   $..docs.count                       '..' recursive descent (same as '**')
+ * Arrays are traversed transparently, as with filter_path.
+ */
+
+type Segment =
+  | { kind: 'key'; name: string; index?: number | '*' }
+  | { kind: 'wildcard' }
+  | { kind: 'recursive' };
+
+/**
+ * Normalize an expression to dot notation without the JSONPath root
+ */
+function normalizeExpression(expr: string): string {
+  return expr
+    .trim()
+    .replace(/^\$/, '')
+    .replace(/\.\./g, '.**.')
+    .replace(/^\.+/, '')
+    .replace(/\.+$/, '');
+}
+
+/**
+ * Parse a selector expression into path segments
+ */
+export function parseSelector(expr: string): Segment[] {
+  const normalized = normalizeExpression(expr);
+  if (!normalized) return [];
+
+  return normalized.split('.').map((part): Segment => {
+    if (part === '**') return { kind: 'recursive' };
+    if (part === '*') return { kind: 'wildcard' };
+
+    const match = part.match(/^(.*?)\[(\*|\d+)\]$/);
+    if (match) {
+      return {
+        kind: 'key',
+        name: match[1],
+        index: match[2] === '*' ? '*' : parseInt(match[2], 10),
+      };
+    }
+    return { kind: 'key', name: part };
+  });
+}
+
+/**
+ * Convert selectors to an Elasticsearch filter_path value
+ * Element indexes are widened to the whole array; the client-side projection narrows them again
+ */
+export function toFilterPath(selectors: string[]): string {
+  return selectors
+    .map(expr => normalizeExpression(expr).replace(/\[(\*|\d+)\]/g, ''))
+    .filter(path => path.length > 0)
+    .join(',');
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Merge two projections of the same source value
+ */
+function mergeProjections(a: any, b: any): any {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    const length = Math.max(a.length, b.length);
+    return Array.from({ length }, (_, i) => mergeProjections(a[i], b[i]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const merged: Record<string, any> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      merged[key] = mergeProjections(merged[key], value);
+    }
+    return merged;
+  }
+
+  return a;
+}
+
+function projectSegments(value: any, segments: Segment[]): any {
+  if (segments.length === 0) return value;
+  if (value === null || typeof value !== 'object') return undefined;
+
+  const [segment, ...rest] = segments;
+
+  // Arrays are traversed transparently; keep positions so projections can be merged
+  if (Array.isArray(value)) {
+    const projected = value.map(item => projectSegments(item, segments));
+    return projected.some(item => item !== undefined) ? projected : undefined;
+  }
+
+  if (segment.kind === 'recursive') {
+    // '**' matches zero or more levels
+    let result = projectSegments(value, rest);
+    for (const [key, child] of Object.entries(value)) {
+      const deeper = projectSegments(child, segments);
+      if (deeper !== undefined) {
+        result = mergeProjections(result, { [key]: deeper });
+      }
+    }
+    return result;
+  }
+
+  if (segment.kind === 'wildcard') {
+    let result: Record<string, any> | undefined;
+    for (const [key, child] of Object.entries(value)) {
+      const projected = projectSegments(child, rest);
+      if (projected !== undefined) {
+        result = result || {};
+        result[key] = projected;
+      }
+    }
+    return result;
+  }
+
+  if (!(segment.name in value)) return undefined;
+  let child = value[segment.name];
+
+  if (segment.index !== undefined) {
+    if (!Array.isArray(child)) return undefined;
+    if (segment.index !== '*') {
+      if (segment.index >= child.length) return undefined;
+      const element = projectSegments(child[segment.index], rest);
+      if (element === undefined) return undefined;
+      // Sparse array so the element merges with other selectors at its own position
+      const indexed: any[] = [];
+      indexed[segment.index] = element;
+      return { [segment.name]: indexed };
+    }
+  }
+
+  const projected = projectSegments(child, rest);
+  return projected === undefined ? undefined : { [segment.name]: projected };
+}
+
+/**
+ * Drop the placeholders left in arrays for elements that matched nothing
+ */
+function compact(value: any): any {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== undefined).map(compact);
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      result[key] = compact(child);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Project a parsed response onto the given selectors
+ * @returns The projected value, or undefined if nothing matched
+ */
+export function projectJson(value: any, selectors: string[]): any {
+  let result: any;
+  for (const expr of selectors) {
+    result = mergeProjections(result, projectSegments(value, parseSelector(expr)));
+  }
+  return result === undefined ? undefined : compact(result);
+}
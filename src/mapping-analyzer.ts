@@ -26,12 +26,13 @@ export interface MappingStats {
 
 export interface MappingSummary {
   index: string;
+  type?: string;             // Mapping type (ES 5.x/6.x)
   stats: MappingStats;
   fields: FlatField[];
 }
 
 export interface MappingComparison {
-  indices: string[];
+  indices: string[];         // Index labels, "index/type" for typed mappings
   common_fields: FlatField[];
   unique_fields: Record<string, FlatField[]>;
   type_conflicts: Array<{
@@ -40,6 +41,29 @@ export interface MappingComparison {
   }>;
 }
 
+/**
+ * Get the mappings of each type from an entry of a normalized mapping response
+ * (CapabilityManager.normalizeMappings). ES 7+ indices return a single entry without a type.
+ */
+export function getTypeMappings(indexData: any): Array<{ type?: string; mappings: any }> {
+  const typeMappings = indexData?._es5_type_mappings || indexData?._es6_type_mappings;
+  if (typeMappings && typeof typeMappings === 'object') {
+    return Object.entries(typeMappings).map(([type, mappings]) => ({ type, mappings }));
+  }
+
+  return [{
+    type: indexData?._es5_type || indexData?._es6_type,
+    mappings: indexData?.mappings || {},
+  }];
+}
+
+/**
+ * Label a summary by index, adding the type for typed mappings
+ */
+export function summaryLabel(summary: MappingSummary): string {
+  return summary.type ? `${summary.index}/${summary.type}` : summary.index;
+}
+
 /**
  * Flatten nested mapping structure into a list of fields with full paths
  */
@@ -109,6 +133,8 @@ function detectCapabilities(type: string, fieldDef: any): FieldCapability[] {
 
   switch (type) {
     case 'text':
+    case 'match_only_text':
+    case 'search_as_you_type':
       caps.push('S'); // Searchable (full-text)
       break;
 
@@ -235,9 +261,9 @@ function formatCapabilities(caps: FieldCapability[]): string {
  * Format mapping in minimal mode (flat list)
  */
 export function formatMinimal(summary: MappingSummary): string {
-  const { index, stats, fields } = summary;
+  const { stats, fields } = summary;
   
-  let text = `📋 Mapping: ${index}\n`;
+  let text = `📋 Mapping: ${summaryLabel(summary)}\n`;
   text += `${'='.repeat(70)}\n\n`;
   
   // Stats overview
@@ -289,9 +315,9 @@ export function formatMinimal(summary: MappingSummary): string {
  * Format mapping in compact mode (tree structure)
  */
 export function formatCompact(summary: MappingSummary): string {
-  const { index, stats, fields } = summary;
+  const { stats, fields } = summary;
   
-  let text = `📋 Mapping: ${index} (Compact View)\n`;
+  let text = `📋 Mapping: ${summaryLabel(summary)} (Compact View)\n`;
   text += `${'='.repeat(70)}\n\n`;
   
   // Stats
@@ -436,7 +462,8 @@ export function compareMappings(summaries: MappingSummary[]): MappingComparison
     };
   }
   
-  const indices = summaries.map(s => s.index);
+  // Typed mappings are compared per type: "index/type"
+  const indices = summaries.map(summaryLabel);
   
   // Build field map: path -> {index -> field}
   const fieldMap = new Map<string, Map<string, FlatField>>();
@@ -446,7 +473,7 @@ export function compareMappings(summaries: MappingSummary[]): MappingComparison
       if (!fieldMap.has(field.path)) {
         fieldMap.set(field.path, new Map());
       }
-      fieldMap.get(field.path)!.set(summary.index, field);
+      fieldMap.get(field.path)!.set(summaryLabel(summary), field);
     }
   }
   
@@ -548,3 +575,28 @@ export function formatComparison(comparison: MappingComparison): string {
   
   return text;
 }
+
+/**
+ * Collect highlightable field paths from flattened fields
+ * Includes text sub-fields of objects and text multi-fields (e.g. "title.english")
+ */
+export function getHighlightableFields(fields: FlatField[]): string[] {
+  const highlightTypes = ['text', 'match_only_text', 'search_as_you_type'];
+  const paths = new Set<string>();
+
+  for (const field of fields) {
+    if (highlightTypes.includes(field.type) && field.capabilities.length > 0) {
+      paths.add(field.path);
+    }
+
+    if (field.fields) {
+      for (const [subName, subDef] of Object.entries(field.fields)) {
+        if (subDef && highlightTypes.includes((subDef as any).type)) {
+          paths.add(`${field.path}.${subName}`);
+        }
+      }
+    }
+  }
+
+  return Array.from(paths);
+}
@@ -0,0 +1,262 @@
+/**
+ * Metrics - Tool and Elasticsearch call metrics in the Prometheus text format
+ * instrumentTools() wraps every server.tool registration, so each call is counted
+ * and timed per tool. Elasticsearch requests made while a tool runs are attributed
+ * to it through the request middleware. The token limiter and the response shaper
+ * flag token-limit rejections and record the token counts they already computed.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+type Labels = Record<string, string>;
+
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels, extra?: Labels): string {
+  const entries = Object.entries({ ...labels, ...extra });
+  return entries.length > 0 ? `{${entries.map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',')}}` : '';
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+class Counter {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, by: number = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    let text = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} counter\n`;
+    for (const { labels, value } of this.values.values()) {
+      text += `${this.name}${formatLabels(labels)} ${value}\n`;
+    }
+    return text;
+  }
+}
+
+class Histogram {
+  private values = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, private bounds: number[] = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  render(): string {
+    let text = `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} histogram\n`;
+    for (const { labels, buckets, sum, count } of this.values.values()) {
+      this.bounds.forEach((bound, i) => {
+        text += `${this.name}_bucket${formatLabels(labels, { le: String(bound) })} ${buckets[i]}\n`;
+      });
+      text += `${this.name}_bucket${formatLabels(labels, { le: '+Inf' })} ${count}\n`;
+      text += `${this.name}_sum${formatLabels(labels)} ${sum}\n`;
+      text += `${this.name}_count${formatLabels(labels)} ${count}\n`;
+    }
+    return text;
+  }
+}
+
+class Gauge {
+  constructor(readonly name: string, readonly help: string, private collect: () => number) {}
+
+  render(): string {
+    return `# HELP ${this.name} ${this.help}\n# TYPE ${this.name} gauge\n${this.name} ${this.collect()}\n`;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Counter | Histogram | Gauge>();
+
+  counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.set(name, counter);
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.set(name, histogram);
+    return histogram;
+  }
+
+  /**
+   * A gauge read at scrape time; registering a name again replaces the previous gauge
+   */
+  gauge(name: string, help: string, collect: () => number): Gauge {
+    const gauge = new Gauge(name, help, collect);
+    this.metrics.set(name, gauge);
+    return gauge;
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return Array.from(this.metrics.values()).map(metric => metric.render()).join('\n');
+  }
+}
+
+/** Shared by every MCP server of the process, so HTTP sessions add up */
+export const metrics = new MetricsRegistry();
+
+const toolCalls = metrics.counter('elasticsearch_mcp_tool_calls_total', 'Tool calls by outcome (success or error)');
+const toolDuration = metrics.histogram('elasticsearch_mcp_tool_duration_seconds', 'Tool call duration in seconds');
+const toolTokenLimited = metrics.counter(
+  'elasticsearch_mcp_tool_token_limit_total',
+  'Tool calls whose result was shaped or rejected to fit the token limit'
+);
+const toolTokens = metrics.counter(
+  'elasticsearch_mcp_tool_tokens_returned_total',
+  'Tokens returned by tool calls, as counted by the token limit check (break_token_rule results are not counted)'
+);
+const esDuration = metrics.histogram(
+  'elasticsearch_mcp_es_request_duration_seconds',
+  'Duration of Elasticsearch requests made by tools, in seconds'
+);
+const esErrors = metrics.counter(
+  'elasticsearch_mcp_es_errors_total',
+  'Failed Elasticsearch requests made by tools, by Elasticsearch error type'
+);
+
+interface ToolCallContext {
+  tool: string;
+  tokenLimited: boolean;
+  /** Tokens of the returned result, when the token limit check counted them */
+  tokens?: number;
+}
+
+const toolContext = new AsyncLocalStorage<ToolCallContext>();
+
+let enabled = false;
+
+/**
+ * Collect tool metrics from now on; tools registered before are not instrumented
+ */
+export function enableMetrics(): void {
+  enabled = true;
+}
+
+export function metricsEnabled(): boolean {
+  return enabled;
+}
+
+/**
+ * Flag the running tool call as limited by the token limit
+ */
+export function markTokenLimited(): void {
+  const context = toolContext.getStore();
+  if (context) {
+    context.tokenLimited = true;
+  }
+}
+
+/**
+ * Record the token count of the result the running tool call returns
+ */
+export function recordResultTokens(tokens: number): void {
+  const context = toolContext.getStore();
+  if (context) {
+    context.tokens = tokens;
+  }
+}
+
+/**
+ * The Elasticsearch error type of a failed request, e.g. index_not_found_exception or ConnectionError
+ */
+function esErrorType(error: any): string {
+  const type = error?.meta?.body?.error?.type;
+  if (typeof type === 'string') {
+    return type;
+  }
+  if (typeof error?.meta?.statusCode === 'number') {
+    return `http_${error.meta.statusCode}`;
+  }
+  return error?.name || 'unknown';
+}
+
+/**
+ * Start timing an Elasticsearch request; returns undefined outside of tool calls
+ */
+export function startEsRequest(api: string): ((error?: unknown) => void) | undefined {
+  const context = toolContext.getStore();
+  if (!context) {
+    return undefined;
+  }
+
+  const start = process.hrtime.bigint();
+  return (error?: unknown) => {
+    esDuration.observe({ tool: context.tool, api }, Number(process.hrtime.bigint() - start) / 1e9);
+    if (error !== undefined) {
+      esErrors.inc({ tool: context.tool, error_type: esErrorType(error) });
+    }
+  };
+}
+
+function resultTexts(result: any): string[] {
+  return Array.isArray(result?.content)
+    ? result.content.filter((item: any) => item?.type === 'text').map((item: any) => String(item.text))
+    : [];
+}
+
+/**
+ * Tools report failures as an "Error: ..." text, or with isError
+ */
+function isErrorResult(result: any): boolean {
+  return result?.isError === true || resultTexts(result)[0]?.startsWith('Error') === true;
+}
+
+async function observeToolCall(tool: string, call: () => unknown): Promise<unknown> {
+  const context: ToolCallContext = { tool, tokenLimited: false };
+  const start = process.hrtime.bigint();
+  let outcome = 'error';
+  try {
+    const result = await toolContext.run(context, call);
+    outcome = isErrorResult(result) ? 'error' : 'success';
+    if (context.tokens !== undefined) {
+      toolTokens.inc({ tool }, context.tokens);
+    }
+    return result;
+  } finally {
+    toolCalls.inc({ tool, outcome });
+    toolDuration.observe({ tool }, Number(process.hrtime.bigint() - start) / 1e9);
+    if (context.tokenLimited) {
+      toolTokenLimited.inc({ tool });
+    }
+  }
+}
+
+/**
+ * Wrap the handler of every tool registered on the server from now on
+ */
+export function instrumentTools(server: McpServer): void {
+  const register = server.tool.bind(server) as (...args: any[]) => any;
+  server.tool = ((...args: any[]) => {
+    const name = args[0];
+    const handler = args[args.length - 1];
+    if (typeof name === 'string' && typeof handler === 'function') {
+      args[args.length - 1] = (...handlerArgs: any[]) => observeToolCall(name, () => handler(...handlerArgs));
+    }
+    return register(...args);
+  }) as typeof server.tool;
+}
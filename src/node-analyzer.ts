@@ -0,0 +1,527 @@
+/**
+ * Node Analyzer - Node-level resource analysis
+ * Heap pressure, disk use against the allocation watermarks, thread pool
+ * rejections and circuit breaker trips per node
+ */
+
+export interface Watermark {
+  kind: 'percent' | 'bytes';  // percent: max used %, bytes: min free bytes
+  value: number;
+  raw: string;
+}
+
+export interface DiskWatermarks {
+  low: Watermark;
+  high: Watermark;
+  flood_stage?: Watermark;   // ES 6.0+
+  threshold_enabled: boolean;
+}
+
+export type WatermarkLevel = 'ok' | 'low' | 'high' | 'flood_stage';
+
+export interface NodeResource {
+  name: string;
+  roles: string[];
+  shards?: number;
+  heap_percent: number;
+  heap_max_bytes: number;
+  cpu_percent?: number;
+  disk_total_bytes: number;
+  disk_available_bytes: number;
+  disk_used_percent: number;
+  watermark_level: WatermarkLevel;
+  thread_pool_rejections: Record<string, number>;
+  breaker_trips: Record<string, number>;
+}
+
+export interface NodeResourceMetrics {
+  total_nodes: number;
+  watermarks: DiskWatermarks;
+
+  heap_health: {
+    healthy: number;    // < 75%
+    warning: number;    // 75-85%
+    critical: number;   // >= 85%
+  };
+
+  disk_health: {
+    ok: number;
+    above_low: number;
+    above_high: number;
+    above_flood_stage: number;
+  };
+
+  total_rejections: Record<string, number>;
+  total_breaker_trips: Record<string, number>;
+
+  problem_nodes: {
+    heap_pressure: NodeResource[];
+    disk_watermark: NodeResource[];
+    rejections: NodeResource[];
+    breaker_trips: NodeResource[];
+  };
+
+  nodes: NodeResource[];
+}
+
+export interface NodeAnalysisOptions {
+  writeThreadPool: string;        // 'write' (ES 6.3+) or 'bulk'
+  supportsFloodStage: boolean;    // flood_stage watermark (ES 6.0+)
+}
+
+const HEAP_WARNING_PERCENT = 75;
+const HEAP_CRITICAL_PERCENT = 85;
+
+/**
+ * Parse size string to bytes
+ */
+function parseSizeToBytes(sizeStr: string): number {
+  const match = sizeStr.trim().match(/^([\d.]+)\s*([kmgtp]?b)?$/i);
+  if (!match) return 0;
+
+  const value = parseFloat(match[1]);
+  const unit = (match[2] || 'b').toLowerCase();
+
+  const multipliers: Record<string, number> = {
+    'b': 1,
+    'kb': 1024,
+    'mb': 1024 * 1024,
+    'gb': 1024 * 1024 * 1024,
+    'tb': 1024 * 1024 * 1024 * 1024,
+    'pb': 1024 * 1024 * 1024 * 1024 * 1024,
+  };
+
+  return value * (multipliers[unit] || 1);
+}
+
+/**
+ * Format bytes to human-readable size
+ */
+function formatBytes(bytes: number): string {
+  if (!bytes || bytes <= 0) return '0 B';
+
+  const units = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+  const k = 1024;
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), units.length - 1);
+
+  return `${(bytes / Math.pow(k, i)).toFixed(2)} ${units[i]}`;
+}
+
+/**
+ * Parse a watermark setting: "85%", "0.85" or an absolute free-space value like "500mb"
+ */
+export function parseWatermark(value: string | undefined, fallback: string): Watermark {
+  const raw = (value ?? fallback).trim();
+
+  if (raw.endsWith('%')) {
+    return { kind: 'percent', value: parseFloat(raw), raw };
+  }
+  if (/^[\d.]+$/.test(raw)) {
+    const ratio = parseFloat(raw);
+    return { kind: 'percent', value: ratio <= 1 ? ratio * 100 : ratio, raw };
+  }
+  return { kind: 'bytes', value: parseSizeToBytes(raw), raw };
+}
+
+/**
+ * Resolve the disk watermarks from _cluster/settings (flat_settings=true, include_defaults=true)
+ * Transient settings win over persistent ones; unset values use the Elasticsearch defaults
+ */
+export function resolveWatermarks(settings: any, supportsFloodStage: boolean): DiskWatermarks {
+  const lookup = (key: string): string | undefined =>
+    settings?.transient?.[key] ?? settings?.persistent?.[key] ?? settings?.defaults?.[key];
+
+  const prefix = 'cluster.routing.allocation.disk';
+  const enabled = lookup(`${prefix}.threshold_enabled`);
+
+  return {
+    low: parseWatermark(lookup(`${prefix}.watermark.low`), '85%'),
+    high: parseWatermark(lookup(`${prefix}.watermark.high`), '90%'),
+    ...(supportsFloodStage && {
+      flood_stage: parseWatermark(lookup(`${prefix}.watermark.flood_stage`), '95%'),
+    }),
+    threshold_enabled: enabled === undefined ? true : String(enabled) !== 'false',
+  };
+}
+
+function exceeds(watermark: Watermark, usedPercent: number, availableBytes: number): boolean {
+  return watermark.kind === 'percent'
+    ? usedPercent >= watermark.value
+    : availableBytes <= watermark.value;
+}
+
+function watermarkLevel(
+  watermarks: DiskWatermarks,
+  usedPercent: number,
+  availableBytes: number,
+  totalBytes: number
+): WatermarkLevel {
+  if (totalBytes <= 0) return 'ok';
+  if (watermarks.flood_stage && exceeds(watermarks.flood_stage, usedPercent, availableBytes)) return 'flood_stage';
+  if (exceeds(watermarks.high, usedPercent, availableBytes)) return 'high';
+  if (exceeds(watermarks.low, usedPercent, availableBytes)) return 'low';
+  return 'ok';
+}
+
+function addCounts(target: Record<string, number>, source: Record<string, number>): void {
+  for (const [key, count] of Object.entries(source)) {
+    target[key] = (target[key] || 0) + count;
+  }
+}
+
+/**
+ * Analyze node resources
+ * @param nodeStats _nodes/stats with jvm, fs, os, thread_pool and breaker metrics
+ * @param allocation _cat/allocation rows (format=json, bytes=b)
+ * @param settings _cluster/settings (flat_settings=true, include_defaults=true)
+ */
+export function analyzeNodeResources(
+  nodeStats: any,
+  allocation: any[],
+  settings: any,
+  options: NodeAnalysisOptions
+): NodeResourceMetrics {
+  const watermarks = resolveWatermarks(settings, options.supportsFloodStage);
+  const watchedPools = ['search', options.writeThreadPool, 'get', 'management'];
+
+  // _cat/allocation reports the disk figures the allocation deciders use
+  const allocationByNode = new Map<string, any>();
+  for (const row of allocation || []) {
+    if (row.node && row.node !== 'UNASSIGNED') {
+      allocationByNode.set(row.node, row);
+    }
+  }
+
+  const metrics: NodeResourceMetrics = {
+    total_nodes: 0,
+    watermarks,
+    heap_health: { healthy: 0, warning: 0, critical: 0 },
+    disk_health: { ok: 0, above_low: 0, above_high: 0, above_flood_stage: 0 },
+    total_rejections: {},
+    total_breaker_trips: {},
+    problem_nodes: {
+      heap_pressure: [],
+      disk_watermark: [],
+      rejections: [],
+      breaker_trips: [],
+    },
+    nodes: [],
+  };
+
+  for (const node of Object.values<any>(nodeStats?.nodes || {})) {
+    const name = node.name || node.host || 'unknown';
+    const alloc = allocationByNode.get(name);
+
+    // Disk: prefer _cat/allocation, fall back to fs stats
+    const diskTotal = alloc?.['disk.total'] !== undefined && alloc['disk.total'] !== null
+      ? Number(alloc['disk.total'])
+      : node.fs?.total?.total_in_bytes || 0;
+    const diskAvailable = alloc?.['disk.avail'] !== undefined && alloc['disk.avail'] !== null
+      ? Number(alloc['disk.avail'])
+      : node.fs?.total?.available_in_bytes || 0;
+    const diskUsedPercent = diskTotal > 0 ? ((diskTotal - diskAvailable) / diskTotal) * 100 : 0;
+
+    // Thread pool rejections (cumulative since node start)
+    const rejections: Record<string, number> = {};
+    for (const pool of watchedPools) {
+      const rejected = node.thread_pool?.[pool]?.rejected || 0;
+      if (rejected > 0) {
+        rejections[pool] = rejected;
+      }
+    }
+
+    // Circuit breaker trips (cumulative since node start)
+    const trips: Record<string, number> = {};
+    for (const [breaker, stats] of Object.entries<any>(node.breakers || {})) {
+      if ((stats?.tripped || 0) > 0) {
+        trips[breaker] = stats.tripped;
+      }
+    }
+
+    const resource: NodeResource = {
+      name,
+      roles: Array.isArray(node.roles) ? node.roles : [],
+      shards: alloc?.shards !== undefined ? parseInt(alloc.shards, 10) : undefined,
+      heap_percent: node.jvm?.mem?.heap_used_percent || 0,
+      heap_max_bytes: node.jvm?.mem?.heap_max_in_bytes || 0,
+      cpu_percent: node.os?.cpu?.percent ?? node.process?.cpu?.percent,
+      disk_total_bytes: diskTotal,
+      disk_available_bytes: diskAvailable,
+      disk_used_percent: diskUsedPercent,
+      watermark_level: watermarks.threshold_enabled
+        ? watermarkLevel(watermarks, diskUsedPercent, diskAvailable, diskTotal)
+        : 'ok',
+      thread_pool_rejections: rejections,
+      breaker_trips: trips,
+    };
+
+    metrics.total_nodes++;
+    metrics.nodes.push(resource);
+
+    // Heap health
+    if (resource.heap_percent >= HEAP_CRITICAL_PERCENT) {
+      metrics.heap_health.critical++;
+      metrics.problem_nodes.heap_pressure.push(resource);
+    } else if (resource.heap_percent >= HEAP_WARNING_PERCENT) {
+      metrics.heap_health.warning++;
+      metrics.problem_nodes.heap_pressure.push(resource);
+    } else {
+      metrics.heap_health.healthy++;
+    }
+
+    // Disk health
+    if (resource.watermark_level === 'flood_stage') metrics.disk_health.above_flood_stage++;
+    else if (resource.watermark_level === 'high') metrics.disk_health.above_high++;
+    else if (resource.watermark_level === 'low') metrics.disk_health.above_low++;
+    else metrics.disk_health.ok++;
+
+    if (resource.watermark_level !== 'ok') {
+      metrics.problem_nodes.disk_watermark.push(resource);
+    }
+
+    if (Object.keys(rejections).length > 0) {
+      addCounts(metrics.total_rejections, rejections);
+      metrics.problem_nodes.rejections.push(resource);
+    }
+
+    if (Object.keys(trips).length > 0) {
+      addCounts(metrics.total_breaker_trips, trips);
+      metrics.problem_nodes.breaker_trips.push(resource);
+    }
+  }
+
+  // Worst first
+  metrics.problem_nodes.heap_pressure.sort((a, b) => b.heap_percent - a.heap_percent);
+  metrics.problem_nodes.disk_watermark.sort((a, b) => b.disk_used_percent - a.disk_used_percent);
+  metrics.nodes.sort((a, b) => a.name.localeCompare(b.name));
+
+  return metrics;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .sort((a, b) => b[1] - a[1])
+    .map(([key, count]) => `${key}(${count.toLocaleString()})`)
+    .join(' ');
+}
+
+const LEVEL_LABELS: Record<WatermarkLevel, string> = {
+  ok: '🟢 below low',
+  low: '🟡 above low',
+  high: '🟠 above high',
+  flood_stage: '🔴 above flood stage',
+};
+
+/**
+ * Format summary analysis
+ */
+export function formatNodeSummary(metrics: NodeResourceMetrics): string {
+  const { watermarks } = metrics;
+
+  let text = `📊 Node Resource Summary\n`;
+  text += `${'='.repeat(60)}\n\n`;
+
+  text += `Total Nodes:      ${metrics.total_nodes}\n`;
+  text += `Disk Watermarks:  low ${watermarks.low.raw} | high ${watermarks.high.raw}`;
+  if (watermarks.flood_stage) {
+    text += ` | flood stage ${watermarks.flood_stage.raw}`;
+  }
+  if (!watermarks.threshold_enabled) {
+    text += ` (disk threshold decider disabled)`;
+  }
+  text += `\n\n`;
+
+  // Heap health
+  text += `Heap Health:\n`;
+  text += `  🟢 Healthy (<${HEAP_WARNING_PERCENT}%):        ${metrics.heap_health.healthy} nodes\n`;
+  if (metrics.heap_health.warning > 0) {
+    text += `  🟡 Warning (${HEAP_WARNING_PERCENT}-${HEAP_CRITICAL_PERCENT}%):      ${metrics.heap_health.warning} nodes\n`;
+  }
+  if (metrics.heap_health.critical > 0) {
+    text += `  🔴 Critical (>=${HEAP_CRITICAL_PERCENT}%):      ${metrics.heap_health.critical} nodes ⚠️\n`;
+  }
+  text += `\n`;
+
+  // Disk health
+  text += `Disk Health:\n`;
+  text += `  🟢 Below low watermark:   ${metrics.disk_health.ok} nodes\n`;
+  if (metrics.disk_health.above_low > 0) {
+    text += `  🟡 Above low:             ${metrics.disk_health.above_low} nodes (no new shards allocated)\n`;
+  }
+  if (metrics.disk_health.above_high > 0) {
+    text += `  🟠 Above high:            ${metrics.disk_health.above_high} nodes (shards relocated away) ⚠️\n`;
+  }
+  if (metrics.disk_health.above_flood_stage > 0) {
+    text += `  🔴 Above flood stage:     ${metrics.disk_health.above_flood_stage} nodes (indices set read-only) ⚠️\n`;
+  }
+  text += `\n`;
+
+  // Problem summary
+  const totalProblems = metrics.problem_nodes.heap_pressure.length +
+                       metrics.problem_nodes.disk_watermark.length +
+                       metrics.problem_nodes.rejections.length +
+                       metrics.problem_nodes.breaker_trips.length;
+
+  if (totalProblems > 0) {
+    text += `Problem Summary:\n`;
+    if (metrics.problem_nodes.heap_pressure.length > 0) {
+      text += `  ├─ ${metrics.problem_nodes.heap_pressure.length} nodes with heap pressure 🔴\n`;
+    }
+    if (metrics.problem_nodes.disk_watermark.length > 0) {
+      text += `  ├─ ${metrics.problem_nodes.disk_watermark.length} nodes above a disk watermark 🔴\n`;
+    }
+    if (metrics.problem_nodes.rejections.length > 0) {
+      text += `  ├─ ${metrics.problem_nodes.rejections.length} nodes with thread pool rejections: ${formatCounts(metrics.total_rejections)} 🟡\n`;
+    }
+    if (metrics.problem_nodes.breaker_trips.length > 0) {
+      text += `  └─ ${metrics.problem_nodes.breaker_trips.length} nodes with circuit breaker trips: ${formatCounts(metrics.total_breaker_trips)} 🟡\n`;
+    }
+    text += `  (rejections and breaker trips are counted since node start)\n`;
+    text += `\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Format a per-node line
+ */
+function formatNodeLine(node: NodeResource): string {
+  let text = `\n${node.name}`;
+  if (node.roles.length > 0) {
+    text += ` [${node.roles.join(', ')}]`;
+  }
+  text += `\n`;
+
+  text += `  • Heap: ${node.heap_percent}% of ${formatBytes(node.heap_max_bytes)}`;
+  if (node.cpu_percent !== undefined) {
+    text += ` | CPU: ${node.cpu_percent}%`;
+  }
+  if (node.shards !== undefined) {
+    text += ` | Shards: ${node.shards}`;
+  }
+  text += `\n`;
+
+  text += `  • Disk: ${node.disk_used_percent.toFixed(1)}% used, ${formatBytes(node.disk_available_bytes)} free of ${formatBytes(node.disk_total_bytes)}`;
+  text += ` (${LEVEL_LABELS[node.watermark_level]})\n`;
+
+  if (Object.keys(node.thread_pool_rejections).length > 0) {
+    text += `  • Rejections: ${formatCounts(node.thread_pool_rejections)}\n`;
+  }
+  if (Object.keys(node.breaker_trips).length > 0) {
+    text += `  • Breaker trips: ${formatCounts(node.breaker_trips)}\n`;
+  }
+
+  return text;
+}
+
+/**
+ * Format detailed problems
+ */
+export function formatNodeProblems(metrics: NodeResourceMetrics): string {
+  let text = `📊 Node Problems Detailed Analysis\n`;
+  text += `${'='.repeat(60)}\n`;
+
+  const problemNodes = new Set<NodeResource>([
+    ...metrics.problem_nodes.disk_watermark,
+    ...metrics.problem_nodes.heap_pressure,
+    ...metrics.problem_nodes.rejections,
+    ...metrics.problem_nodes.breaker_trips,
+  ]);
+
+  if (problemNodes.size === 0) {
+    text += `\n✅ No node problems detected\n`;
+    return text;
+  }
+
+  for (const node of problemNodes) {
+    text += formatNodeLine(node);
+  }
+
+  return text;
+}
+
+/**
+ * Format every node
+ */
+export function formatNodeDetails(metrics: NodeResourceMetrics): string {
+  let text = `📋 All Nodes (${metrics.total_nodes})\n`;
+  text += `${'='.repeat(60)}\n`;
+
+  for (const node of metrics.nodes) {
+    text += formatNodeLine(node);
+  }
+
+  return text;
+}
+
+/**
+ * Generate recommendations
+ */
+export function generateNodeRecommendations(metrics: NodeResourceMetrics): string {
+  const recommendations: string[] = [];
+
+  if (metrics.disk_health.above_flood_stage > 0) {
+    recommendations.push(
+      `[HIGH] ${metrics.disk_health.above_flood_stage} Nodes Above Flood Stage\n` +
+      `   Impact: Indices with shards on these nodes are read-only (index.blocks.read_only_allow_delete)\n` +
+      `   Action: Free disk space (delete old indices) or add data nodes; ES 7.4+ removes the block automatically,\n` +
+      `   older versions need PUT */_settings {"index.blocks.read_only_allow_delete": null}`
+    );
+  }
+
+  if (metrics.disk_health.above_high > 0) {
+    recommendations.push(
+      `[HIGH] ${metrics.disk_health.above_high} Nodes Above High Watermark\n` +
+      `   Impact: Shards are being relocated away, adding I/O load\n` +
+      `   Action: Free disk space, add nodes, or apply ILM retention`
+    );
+  }
+
+  if (metrics.disk_health.above_low > 0) {
+    recommendations.push(
+      `[MEDIUM] ${metrics.disk_health.above_low} Nodes Above Low Watermark\n` +
+      `   Impact: No new shards are allocated to these nodes\n` +
+      `   Action: Plan capacity before reaching the high watermark`
+    );
+  }
+
+  if (metrics.heap_health.critical > 0) {
+    recommendations.push(
+      `[HIGH] ${metrics.heap_health.critical} Nodes With Heap >= ${HEAP_CRITICAL_PERCENT}%\n` +
+      `   Impact: Long GC pauses, circuit breaker trips, possible OOM\n` +
+      `   Action: Reduce shard count per node, avoid fielddata on text fields, or add memory/nodes`
+    );
+  }
+
+  if (metrics.problem_nodes.rejections.length > 0) {
+    recommendations.push(
+      `[MEDIUM] Thread Pool Rejections: ${formatCounts(metrics.total_rejections)}\n` +
+      `   Impact: Requests were refused because queues were full\n` +
+      `   Action: Slow down clients (backoff), spread load across nodes, reduce concurrent bulk/search requests\n` +
+      `   Command: GET _cat/thread_pool?v&h=node_name,name,active,queue,rejected`
+    );
+  }
+
+  if (metrics.problem_nodes.breaker_trips.length > 0) {
+    recommendations.push(
+      `[MEDIUM] Circuit Breaker Trips: ${formatCounts(metrics.total_breaker_trips)}\n` +
+      `   Impact: Requests were rejected to protect the heap\n` +
+      `   Action: Reduce aggregation size/cardinality and request sizes, or add heap`
+    );
+  }
+
+  let text = `\n🔧 Recommendations:\n`;
+  text += `${'─'.repeat(60)}\n`;
+
+  if (recommendations.length === 0) {
+    text += `✅ Node resources look healthy\n`;
+    return text;
+  }
+
+  for (const rec of recommendations) {
+    text += `\n${rec}\n`;
+  }
+
+  return text;
+}
@@ -0,0 +1,148 @@
+/**
+ * Privilege Checker - Find out which tools the connected credentials can use
+ * Narrowly scoped API keys connect fine and then get 403 on every call of
+ * cluster-level tools. _security/user/_has_privileges tells us up front which
+ * cluster and index privileges are missing, so tools can be skipped or
+ * registered with reduced functionality instead.
+ */
+
+import type { Client } from '@elastic/elasticsearch';
+import type { CapabilityManager } from './capability-manager.js';
+
+/**
+ * Privileges a tool needs
+ * cluster: required, the tool is skipped without them
+ * optionalCluster: the tool works without them, with reduced functionality
+ * index: needed on the indices the tool touches; checked against '*'
+ */
+export interface ToolPrivileges {
+  cluster?: string[];
+  optionalCluster?: string[];
+  index?: string[];
+}
+
+export interface ToolAccess {
+  /** false when a required cluster privilege is missing */
+  allowed: boolean;
+  missingCluster: string[];
+  missingOptionalCluster: string[];
+  /** Index privileges not granted on every index; the tool only sees the granted ones */
+  missingIndex: string[];
+}
+
+export interface PrivilegeCheckResult {
+  /** false when the check was not run; every tool is then allowed */
+  checked: boolean;
+  reason?: string;
+  username?: string;
+  tools: Record<string, ToolAccess>;
+}
+
+/**
+ * Privileges per tool, from the APIs each tool calls
+ * Tools without an entry (execute_es_api, continue_result) are not checked
+ */
+export const TOOL_PRIVILEGES: Record<string, ToolPrivileges> = {
+  list_indices: { index: ['monitor'] },
+  get_mappings: { index: ['view_index_metadata'] },
+  get_templates: { cluster: ['manage_index_templates'] },
+  es_search: { index: ['read'] },
+  paginate_search: { index: ['read'] },
+  get_shards: { cluster: ['monitor'], index: ['monitor'] },
+  explain_allocation: { cluster: ['monitor'] },
+  node_stats: { cluster: ['monitor'] },
+  cluster_overview: { cluster: ['monitor'] },
+  list_data_streams: { index: ['view_index_metadata', 'monitor'] },
+  ilm_status: { optionalCluster: ['read_ilm'], index: ['view_index_metadata'] },
+  sql_query: { index: ['read'] },
+};
+
+function unchecked(reason: string): PrivilegeCheckResult {
+  return { checked: false, reason, tools: {} };
+}
+
+/**
+ * Ask _has_privileges for everything the given tools need
+ * Only tools listed in TOOL_PRIVILEGES are checked
+ */
+export async function checkToolPrivileges(
+  esClient: Client,
+  capabilityManager: CapabilityManager,
+  tools: string[]
+): Promise<PrivilegeCheckResult> {
+  if (capabilityManager.isOpenSearch()) {
+    return unchecked('OpenSearch has no _has_privileges API');
+  }
+  const { major, minor } = capabilityManager.getVersion();
+  if (major < 6 || (major === 6 && minor < 4)) {
+    return unchecked('_has_privileges requires ES 6.4+');
+  }
+
+  const security = capabilityManager.getProbeResult()?.security;
+  if (security && !security.enabled) {
+    return unchecked('security is disabled');
+  }
+
+  const checkedTools = tools.filter(tool => TOOL_PRIVILEGES[tool]);
+  const cluster = new Set<string>();
+  const index = new Set<string>();
+  for (const tool of checkedTools) {
+    const privileges = TOOL_PRIVILEGES[tool];
+    privileges.cluster?.forEach(privilege => cluster.add(privilege));
+    privileges.optionalCluster?.forEach(privilege => cluster.add(privilege));
+    privileges.index?.forEach(privilege => index.add(privilege));
+  }
+
+  if (cluster.size === 0 && index.size === 0) {
+    return { checked: true, tools: {} };
+  }
+
+  const path = major >= 7 ? '/_security/user/_has_privileges' : '/_xpack/security/user/_has_privileges';
+
+  let response: any;
+  try {
+    response = await esClient.transport.request({
+      method: 'POST',
+      path,
+      body: {
+        cluster: Array.from(cluster),
+        index: index.size > 0 ? [{ names: ['*'], privileges: Array.from(index) }] : [],
+      },
+    });
+  } catch (error) {
+    // A failed check never blocks startup; tools are registered as before
+    return unchecked(`POST ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const clusterGranted: Record<string, boolean> = response?.cluster || {};
+  const indexGranted: Record<string, boolean> = response?.index?.['*'] || {};
+  const result: PrivilegeCheckResult = { checked: true, username: response?.username, tools: {} };
+
+  for (const tool of checkedTools) {
+    const privileges = TOOL_PRIVILEGES[tool];
+    const missingCluster = (privileges.cluster || []).filter(privilege => clusterGranted[privilege] === false);
+    result.tools[tool] = {
+      allowed: missingCluster.length === 0,
+      missingCluster,
+      missingOptionalCluster: (privileges.optionalCluster || []).filter(privilege => clusterGranted[privilege] === false),
+      missingIndex: (privileges.index || []).filter(privilege => indexGranted[privilege] === false),
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Describe the privileges a tool is missing, e.g. "missing cluster privilege: monitor"
+ */
+export function formatMissingPrivileges(access: ToolAccess): string {
+  const parts: string[] = [];
+  const cluster = [...access.missingCluster, ...access.missingOptionalCluster];
+  if (cluster.length > 0) {
+    parts.push(`missing cluster privilege${cluster.length > 1 ? 's' : ''}: ${cluster.join(', ')}`);
+  }
+  if (access.missingIndex.length > 0) {
+    parts.push(`${access.missingIndex.join(', ')} not granted on all indices`);
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,138 @@
+/**
+ * Request Middleware - Route every client call through the version adapters
+ *
+ * Tools are written against the 8.x client. The wrapped client prepares each
+ * request for the connected version (mapping types, track_total_hits, _doc
+ * paths, body parameters on legacy clients) and normalizes the response
+ * (unwrapped body, hits.total, cat column names) before it reaches the tool.
+ */
+
+import type { Client } from '@elastic/elasticsearch';
+import type { CapabilityManager } from './capability-manager.js';
+import { startEsRequest } from './metrics.js';
+
+/**
+ * Request keys the 5.x-7.x and OpenSearch clients only accept inside `body`
+ * The 8.x client takes them as top-level parameters
+ */
+const LEGACY_BODY_KEYS: Record<string, string[]> = {
+  search: [
+    'query', 'aggs', 'aggregations', 'sort', '_source', 'highlight', 'search_after',
+    'pit', 'post_filter', 'collapse', 'fields', 'docvalue_fields', 'script_fields',
+    'suggest', 'min_score', 'runtime_mappings', 'rescore', 'track_total_hits',
+    'profile', 'indices_boost', 'knn', 'track_scores', 'stored_fields', 'explain',
+  ],
+  count: ['query'],
+  closePointInTime: ['id'],
+  'cluster.allocationExplain': ['index', 'shard', 'primary', 'current_node'],
+  'indices.create': ['settings', 'mappings', 'aliases'],
+};
+
+/**
+ * Client properties that are passed through without wrapping
+ */
+const PASSTHROUGH = new Set(['then', 'constructor', 'name', 'connectionPool', 'serializer', 'helpers']);
+
+/**
+ * Move top-level body parameters into `body` for legacy clients
+ */
+function liftBodyParams(api: string, params: Record<string, any>): Record<string, any> {
+  const keys = LEGACY_BODY_KEYS[api];
+  if (!keys || params.body !== undefined) {
+    return params;
+  }
+
+  const lifted: Record<string, any> = {};
+  const body: Record<string, any> = {};
+  for (const [key, value] of Object.entries(params)) {
+    if (keys.includes(key)) {
+      body[key] = value;
+    } else {
+      lifted[key] = value;
+    }
+  }
+
+  return Object.keys(body).length > 0 ? { ...lifted, body } : params;
+}
+
+/**
+ * Legacy and OpenSearch clients resolve to { body, statusCode, headers, meta }; 8.x resolves to the body
+ */
+function unwrapBody(response: any): any {
+  if (
+    response !== null &&
+    typeof response === 'object' &&
+    'body' in response &&
+    'statusCode' in response &&
+    'meta' in response
+  ) {
+    return response.body;
+  }
+  return response;
+}
+
+/**
+ * Wrap an Elasticsearch client so every API call passes through the version adapters
+ */
+export function withRequestMiddleware(esClient: Client, capabilityManager: CapabilityManager): Client {
+  const legacyClient = capabilityManager.isOpenSearch() || capabilityManager.getVersion().major < 8;
+
+  const callApi = (api: string, fn: (...args: any[]) => any, thisArg: any, args: any[]) => {
+    // Callback style calls are passed through untouched
+    if (args.some((arg) => typeof arg === 'function')) {
+      return fn.apply(thisArg, args);
+    }
+
+    let [params, ...rest] = args;
+    if (params !== null && typeof params === 'object' && !Array.isArray(params)) {
+      if (legacyClient) {
+        params = liftBodyParams(api, params);
+      }
+      params = capabilityManager.prepareRequest(api, params);
+    }
+
+    // Timed and counted per tool while a tool call is running
+    const done = startEsRequest(api);
+    const result = fn.apply(thisArg, args.length > 0 ? [params, ...rest] : args);
+    if (!result || typeof result.then !== 'function') {
+      done?.();
+      return result;
+    }
+
+    return result.then(
+      (response: any) => {
+        done?.();
+        return capabilityManager.normalizeResponse(api, unwrapBody(response), params);
+      },
+      (error: unknown) => {
+        done?.(error);
+        throw error;
+      }
+    );
+  };
+
+  const wrap = (target: any, prefix: string): any =>
+    new Proxy(target, {
+      get(obj, prop) {
+        // Namespaces and methods read internal state through `this`, so resolve against the real object
+        const value = Reflect.get(obj, prop, obj);
+        if (typeof prop !== 'string' || prop.startsWith('_') || PASSTHROUGH.has(prop)) {
+          return value;
+        }
+
+        const api = prefix ? `${prefix}.${prop}` : prop;
+        if (typeof value === 'function') {
+          return (...args: any[]) => callApi(api, value, obj, args);
+        }
+
+        // One level of namespaces: esClient.cat.indices, esClient.transport.request
+        if (!prefix && value !== null && typeof value === 'object') {
+          return wrap(value, api);
+        }
+
+        return value;
+      },
+    });
+
+  return wrap(esClient, '') as Client;
+}
@@ -0,0 +1,369 @@
+/**
+ * Response Shaper - Fit tool results into the token budget instead of rejecting them
+ * Keeps as many items (hits, indices, fields, lines) as fit, reports what was left out,
+ * and holds the remainder server-side behind a continuation handle. Each MCP server
+ * has its own continuation store, so one HTTP session cannot read another's results.
+ */
+
+import { randomUUID } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { calculateTokens } from './token-limiter.js';
+import { getTokenCounter } from './token-counter.js';
+import { markTokenLimited, recordResultTokens } from './metrics.js';
+
+export interface ShapeInput {
+  header?: string;          // Always included (totals, aggregations, ...)
+  items: string[];          // Units that may be dropped from the end
+  itemLabel: string;        // Plural noun for the items, e.g. "hits"
+  footer?: string;          // Included only when everything fits
+  separator?: string;       // Joins items in a single text block (default: newline)
+  asFragments?: boolean;    // Emit each item as its own content fragment
+}
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ShapedResponse {
+  content: TextContent[];
+  truncated: boolean;
+  shown: number;
+  total: number;
+  continuation?: string;
+}
+
+interface Continuation {
+  itemLabel: string;
+  items: string[];
+  offset: number;
+  separator: string;
+  asFragments: boolean;
+  source: string;
+  expiresAt: number;
+}
+
+const CONTINUATION_TTL_MS = 10 * 60 * 1000;
+const MAX_CONTINUATIONS = 50;
+// Room kept for the truncation notice appended to shaped output
+const NOTICE_RESERVE_TOKENS = 150;
+
+/**
+ * Continuations of one MCP server, bounded in size and age
+ */
+export class ContinuationStore {
+  private continuations = new Map<string, Continuation>();
+
+  get(token: string): Continuation | undefined {
+    this.prune();
+    return this.continuations.get(token);
+  }
+
+  add(entry: Continuation): string {
+    this.prune();
+    const token = randomUUID();
+    this.continuations.set(token, entry);
+    return token;
+  }
+
+  delete(token: string): void {
+    this.continuations.delete(token);
+  }
+
+  clear(): void {
+    this.continuations.clear();
+  }
+
+  /**
+   * Drop expired continuations and keep the store bounded
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, entry] of this.continuations.entries()) {
+      if (entry.expiresAt <= now) {
+        this.continuations.delete(token);
+      }
+    }
+
+    while (this.continuations.size >= MAX_CONTINUATIONS) {
+      const oldest = this.continuations.keys().next().value;
+      if (oldest === undefined) break;
+      this.continuations.delete(oldest);
+    }
+  }
+}
+
+const continuationScope = new AsyncLocalStorage<ContinuationStore>();
+
+/**
+ * Run every tool registered on the server from now on with the server's continuation store
+ */
+export function scopeContinuations(server: McpServer, store: ContinuationStore): void {
+  const register = server.tool.bind(server) as (...args: any[]) => any;
+  server.tool = ((...args: any[]) => {
+    const handler = args[args.length - 1];
+    if (typeof handler === 'function') {
+      args[args.length - 1] = (...handlerArgs: any[]) => continuationScope.run(store, () => handler(...handlerArgs));
+    }
+    return register(...args);
+  }) as typeof server.tool;
+}
+
+/**
+ * Cut a single oversized text down to roughly the given token budget
+ */
+function truncateText(text: string, maxTokens: number): string {
+  const tokens = calculateTokens(text);
+  if (tokens <= maxTokens) return text;
+
+  const keepChars = Math.max(0, Math.floor(text.length * (maxTokens / tokens) * 0.95));
+  return `${text.slice(0, keepChars)}\n... [truncated: ${tokens - maxTokens} tokens over budget]`;
+}
+
+/**
+ * Take items from `offset` until the budget is used up
+ */
+function takeItems(
+  items: string[],
+  offset: number,
+  budget: number
+): { taken: string[]; partial: boolean; used: number } {
+  const taken: string[] = [];
+  let used = 0;
+
+  for (let i = offset; i < items.length; i++) {
+    const tokens = calculateTokens(items[i]) + 1;
+    if (used + tokens > budget) {
+      // Always make progress: a lone oversized item is cut rather than skipped
+      if (taken.length === 0) {
+        taken.push(truncateText(items[i], budget));
+        return { taken, partial: true, used: budget };
+      }
+      break;
+    }
+    taken.push(items[i]);
+    used += tokens;
+  }
+
+  return { taken, partial: false, used };
+}
+
+function buildContent(
+  header: string | undefined,
+  items: string[],
+  separator: string,
+  asFragments: boolean
+): TextContent[] {
+  const content: TextContent[] = [];
+  if (header) {
+    content.push({ type: 'text', text: header });
+  }
+
+  if (asFragments) {
+    for (const item of items) {
+      content.push({ type: 'text', text: item });
+    }
+  } else if (items.length > 0) {
+    content.push({ type: 'text', text: items.join(separator) });
+  }
+
+  return content;
+}
+
+/**
+ * Shape a result so it fits within maxTokens
+ * @param input Header, droppable items and formatting options
+ * @param maxTokens Maximum allowed tokens
+ * @param breakRule If true, return everything without shaping
+ * @param source Tool name recorded with the continuation
+ * @param knownTokens Token count of the unshaped result, when the caller already measured it
+ */
+export function shapeResponse(
+  input: ShapeInput,
+  maxTokens: number,
+  breakRule: boolean = false,
+  source: string = 'tool',
+  knownTokens?: number
+): ShapedResponse {
+  const separator = input.separator ?? '\n';
+  const asFragments = input.asFragments ?? false;
+  const total = input.items.length;
+
+  const full = buildContent(input.header, input.items, separator, asFragments);
+  if (input.footer) {
+    full.push({ type: 'text', text: input.footer });
+  }
+
+  if (breakRule) {
+    return { content: full, truncated: false, shown: total, total };
+  }
+  // Counting stops once over the limit; the exact size of an oversized result is not needed
+  const { tokens: fullTokens, exceeded } = knownTokens !== undefined
+    ? { tokens: knownTokens, exceeded: knownTokens > maxTokens }
+    : getTokenCounter().countJsonUpTo(full, maxTokens);
+  if (!exceeded) {
+    recordResultTokens(fullTokens);
+    return { content: full, truncated: false, shown: total, total };
+  }
+
+  markTokenLimited();
+
+  // A header larger than the whole budget is cut to half of it
+  let header = input.header;
+  let headerTokens = header ? calculateTokens(header) : 0;
+  if (header && headerTokens > maxTokens - NOTICE_RESERVE_TOKENS) {
+    header = truncateText(header, Math.floor((maxTokens - NOTICE_RESERVE_TOKENS) / 2));
+    headerTokens = calculateTokens(header);
+  }
+
+  const budget = Math.max(maxTokens - headerTokens - NOTICE_RESERVE_TOKENS, 0);
+  const { taken, partial, used } = takeItems(input.items, 0, budget);
+  // The truncation notice is not counted
+  recordResultTokens(headerTokens + used);
+
+  const content = buildContent(header, taken, separator, asFragments);
+  const shown = taken.length;
+  const remaining = total - shown;
+
+  // Outside a tool call there is no store to hold the remainder
+  const store = continuationScope.getStore();
+  let continuation: string | undefined;
+  if (remaining > 0 && store) {
+    continuation = store.add({
+      itemLabel: input.itemLabel,
+      items: input.items,
+      offset: shown,
+      separator,
+      asFragments,
+      source,
+      expiresAt: Date.now() + CONTINUATION_TTL_MS,
+    });
+  }
+
+  content.push({
+    type: 'text',
+    text: formatTruncationNotice(input.itemLabel, shown, total, partial, continuation),
+  });
+
+  return { content, truncated: true, shown, total, continuation };
+}
+
+/**
+ * Fetch the next part of a shaped result
+ */
+export function continueResponse(
+  token: string,
+  maxTokens: number
+): ShapedResponse | null {
+  const store = continuationScope.getStore();
+  const entry = store?.get(token);
+  if (!store || !entry) return null;
+
+  const { taken, partial, used } = takeItems(
+    entry.items,
+    entry.offset,
+    Math.max(maxTokens - NOTICE_RESERVE_TOKENS, 0)
+  );
+  recordResultTokens(used);
+
+  const start = entry.offset;
+  entry.offset += taken.length;
+  entry.expiresAt = Date.now() + CONTINUATION_TTL_MS;
+
+  const header = `Continuation of ${entry.source}: ${entry.itemLabel} ${start + 1}-${entry.offset} of ${entry.items.length}`;
+  const content = buildContent(header, taken, entry.separator, entry.asFragments);
+
+  const done = entry.offset >= entry.items.length;
+  if (done) {
+    store.delete(token);
+    content.push({ type: 'text', text: `End of result - all ${entry.items.length} ${entry.itemLabel} returned` });
+  } else {
+    content.push({
+      type: 'text',
+      text: formatTruncationNotice(entry.itemLabel, entry.offset, entry.items.length, partial, token),
+    });
+  }
+
+  return {
+    content,
+    truncated: !done,
+    shown: taken.length,
+    total: entry.items.length,
+    continuation: done ? undefined : token,
+  };
+}
+
+function formatTruncationNotice(
+  itemLabel: string,
+  shown: number,
+  total: number,
+  partial: boolean,
+  continuation?: string
+): string {
+  let text = `${'─'.repeat(60)}\n`;
+  text += `✂️  Result shaped to fit the token limit: showing ${shown} of ${total} ${itemLabel}`;
+  if (partial) {
+    text += ` (last one cut short)`;
+  }
+  text += `\n`;
+
+  if (continuation) {
+    text += `   ${total - shown} ${itemLabel} left out. Fetch them with continue_result { "continuation": "${continuation}" }\n`;
+    text += `   (handle expires after ${CONTINUATION_TTL_MS / 60000} minutes of inactivity)\n`;
+  }
+  text += `   Narrow the request or set break_token_rule: true to get everything at once.`;
+
+  return text;
+}
+
+/**
+ * Shape a formatted text report line by line
+ */
+export function shapeText(
+  text: string,
+  maxTokens: number,
+  breakRule: boolean = false,
+  source: string = 'tool',
+  knownTokens?: number
+): ShapedResponse {
+  return shapeResponse(
+    { items: text.split('\n'), itemLabel: 'lines' },
+    maxTokens,
+    breakRule,
+    source,
+    knownTokens
+  );
+}
+
+/**
+ * Split a parsed JSON response into shapeable units:
+ * search hits, array elements, or top-level object entries
+ */
+export function splitJsonResponse(response: any): { header?: string; items: string[]; itemLabel: string } {
+  if (Array.isArray(response)) {
+    return {
+      items: response.map(item => JSON.stringify(item)),
+      itemLabel: 'entries',
+    };
+  }
+
+  if (response && typeof response === 'object') {
+    if (Array.isArray(response.hits?.hits)) {
+      const { hits, ...rest } = response;
+      const { hits: hitList, ...hitsMeta } = hits;
+      return {
+        header: JSON.stringify({ ...rest, hits: hitsMeta }, null, 2),
+        items: hitList.map((hit: any) => JSON.stringify(hit)),
+        itemLabel: 'hits',
+      };
+    }
+
+    return {
+      items: Object.entries(response).map(([key, value]) => `${JSON.stringify(key)}: ${JSON.stringify(value, null, 2)}`),
+      itemLabel: 'top-level fields',
+    };
+  }
+
+  return { items: [JSON.stringify(response)], itemLabel: 'values' };
+}
@@ -1,187 +1,399 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { ClientOptions } from "@elastic/elasticsearch";
-import fs from "fs";
-import { detectESVersion, formatVersionInfo } from "./version-detector.js";
-import { createVersionedClient, verifyConnection } from "./client-factory.js";
-import { CapabilityManager } from "./capability-manager.js";
+import { ApiPolicy, apiPolicyConfigFromSettings } from "./api-policy.js";
+import {
+  ClusterRegistry,
+  ClusterConfigSchema,
+  ClusterConnectionSchema,
+  type ClusterConfig,
+} from "./cluster-registry.js";
+import { formatMissingPrivileges } from "./privilege-checker.js";
+import { instrumentTools, metricsEnabled } from "./metrics.js";
+import { ContinuationStore, scopeContinuations } from "./response-shaper.js";
 import { registerListIndices } from "./tools/list-indices.js";
 import { registerGetMappings } from "./tools/get-mappings.js";
 import { registerSearch } from "./tools/search.js";
 import { registerExecuteApi } from "./tools/execute-api.js";
 import { registerGetShards } from "./tools/get-shards.js";
+import { registerClusterOverview } from "./tools/cluster-overview.js";
+import { registerExplainAllocation } from "./tools/explain-allocation.js";
+import { registerNodeStats } from "./tools/node-stats.js";
+import { registerIlmStatus } from "./tools/ilm-status.js";
+import { registerSqlQuery } from "./tools/sql-query.js";
+import { registerGetTemplates } from "./tools/get-templates.js";
 import { registerListDataStreams } from "./tools/list-datastreams.js";
+import { registerPaginateSearch } from "./tools/paginate-search.js";
+import { registerContinueResult } from "./tools/continue-result.js";
+import { registerListClusters } from "./tools/list-clusters.js";
+
+/**
+ * Every tool the server can register, for per-tool configuration
+ */
+export const TOOL_NAMES = [
+  "list_indices",
+  "get_mappings",
+  "get_templates",
+  "es_search",
+  "paginate_search",
+  "execute_es_api",
+  "get_shards",
+  "explain_allocation",
+  "node_stats",
+  "cluster_overview",
+  "continue_result",
+  "list_clusters",
+  "list_data_streams",
+  "ilm_status",
+  "ism_status",
+  "sql_query",
+] as const;
+
+const ToolNameSchema = z.enum(TOOL_NAMES);
+
+/**
+ * The top-level connection settings, which describe the only cluster when no named clusters are configured
+ */
+function singleClusterSettings(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.keys(ClusterConnectionSchema.shape).map((key) => [key, data[key]]));
+}
 
-// Configuration schema with auth options
-const ConfigSchema = z
-  .object({
-    url: z
-      .string()
-      .trim()
-      .min(1, "Elasticsearch URL cannot be empty")
-      .url("Invalid Elasticsearch URL format")
-      .describe("Elasticsearch server URL"),
+// Configuration schema: one cluster (url + auth + TLS) at the top level, or named clusters each with their own
+export const ConfigSchema = ClusterConnectionSchema.partial()
+  .extend({
+    clusters: z
+      .record(
+        z.string().regex(/^[A-Za-z0-9_.-]+$/, "Cluster names may only contain letters, digits, '_', '.' and '-'"),
+        ClusterConfigSchema
+      )
+      .optional()
+      .describe("Named clusters, e.g. { prod: { url, apiKey }, staging: { url, username, password } }"),
 
-    apiKey: z
+    defaultCluster: z
       .string()
       .optional()
-      .describe("API key for Elasticsearch authentication"),
+      .describe("Cluster used when a tool call names none (default: the first configured cluster)"),
+
+    maxTokenCall: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum tokens returned per tool call (default: 20000)"),
 
-    username: z
+    tokenEncoding: z
       .string()
+      .min(1)
       .optional()
-      .describe("Username for Elasticsearch authentication"),
+      .describe("Token counting encoding, model name, or 'approx' (default: gpt-4); set once at startup for all sessions"),
 
-    password: z
+    featureProbeTtl: z
       .string()
+      .regex(/^\d+(ms|s|m|h|d)$/, "featureProbeTtl must be a time value such as '15m' or '1h'")
       .optional()
-      .describe("Password for Elasticsearch authentication"),
+      .describe("How long feature probe results are cached (default: 15m)"),
 
-    caCert: z
+    versionCheckInterval: z
       .string()
+      .regex(/^\d+(ms|s|m|h|d)$/, "versionCheckInterval must be a time value such as '5m' or '1h'")
       .optional()
-      .describe("Path to custom CA certificate for Elasticsearch"),
+      .describe("How often connected clusters are checked for a version change; '0s' disables the check (default: 5m)"),
+
+    apiPolicy: z
+      .object({
+        readOnly: z.boolean().optional().describe("Reject write and admin requests in execute_es_api"),
+        allowDestructive: z.boolean().optional().describe("Allow wildcard/_all deletes and writes, snapshot and security deletes"),
+        allowlist: z.array(z.string().min(1)).optional().describe("execute_es_api rules that are allowed, e.g. 'GET _cat/**'"),
+        denylist: z.array(z.string().min(1)).optional().describe("execute_es_api rules that are always rejected"),
+      })
+      .strict()
+      .optional(),
+
+    tools: z
+      .object({
+        enabled: z.array(ToolNameSchema).optional().describe("Only register these tools"),
+        disabled: z.array(ToolNameSchema).optional().describe("Never register these tools"),
+        maxTokenCall: z
+          .record(ToolNameSchema, z.number().int().positive())
+          .optional()
+          .describe("Per-tool token limits overriding maxTokenCall"),
+      })
+      .strict()
+      .optional(),
+
+    transport: z
+      .object({
+        mode: z.enum(["stdio", "http"]).optional().describe("Transport mode (default: stdio)"),
+        port: z.number().int().min(1).max(65535).optional().describe("HTTP server port (default: 3000)"),
+        host: z.string().min(1).optional().describe("HTTP server host (default: localhost)"),
+        auth: z
+          .object({
+            tokens: z
+              .array(z.string().min(16, "HTTP auth tokens must be at least 16 characters"))
+              .optional()
+              .describe("Bearer tokens accepted on /mcp"),
+            introspectionUrl: z
+              .string()
+              .url()
+              .optional()
+              .describe("OAuth 2.0 token introspection endpoint (RFC 7662) that validates other bearer tokens"),
+            clientId: z.string().min(1).optional().describe("Client ID of this server at the introspection endpoint"),
+            clientSecret: z.string().optional().describe("Client secret of this server at the introspection endpoint"),
+            requiredScopes: z.array(z.string().min(1)).optional().describe("Scopes every token must have"),
+          })
+          .strict()
+          .refine((auth) => (auth.tokens && auth.tokens.length > 0) || auth.introspectionUrl, {
+            message: "HTTP auth needs tokens or an introspectionUrl",
+          })
+          .optional()
+          .describe("Bearer token protection of the HTTP endpoint"),
+        sessionApiKey: z
+          .enum(["off", "optional", "required"])
+          .optional()
+          .describe("Whether HTTP sessions may bring their own Elasticsearch API key in the X-Elasticsearch-Api-Key header (default: off)"),
+        sessionIdleTimeout: z
+          .string()
+          .regex(/^\d+(ms|s|m|h|d)$/, "sessionIdleTimeout must be a time value such as '30m' or '1h'")
+          .optional()
+          .describe("Close HTTP sessions without requests for this long; '0s' keeps them until deleted (default: 30m)"),
+        maxSessions: z
+          .number()
+          .int()
+          .positive()
+          .optional()
+          .describe("Maximum open HTTP sessions; the least recently active one is closed when full (default: 100)"),
+        metrics: z
+          .boolean()
+          .optional()
+          .describe("Serve Prometheus metrics on /metrics (default: true)"),
+      })
+      .strict()
+      .optional(),
   })
-  .refine(
-    (data) => {
-      // If username is provided, password must be provided
-      if (data.username) {
-        return !!data.password;
+  .strict()
+  .superRefine((data, ctx) => {
+    // Without named clusters the top-level settings describe the only cluster
+    if (!data.clusters || Object.keys(data.clusters).length === 0) {
+      const single = ClusterConfigSchema.safeParse(singleClusterSettings(data));
+      // Field errors are already reported by the top-level fields; add the cross-field ones
+      if (!single.success) {
+        single.error.issues
+          .filter((issue) => issue.code === z.ZodIssueCode.custom)
+          .forEach((issue) => ctx.addIssue(issue));
       }
+    } else if (data.defaultCluster && !data.clusters[data.defaultCluster]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["defaultCluster"],
+        message: `Unknown cluster '${data.defaultCluster}'. Configured clusters: ${Object.keys(data.clusters).join(", ")}`,
+      });
+    }
+  });
 
-      // If password is provided, username must be provided
-      if (data.password) {
-        return !!data.username;
-      }
+export type ElasticsearchConfig = z.infer<typeof ConfigSchema>;
 
-      // If apiKey is provided, it's valid
-      if (data.apiKey) {
-        return true;
-      }
+/**
+ * Create the cluster connections of a configuration
+ * Version detection, clients and feature probes live in the registry, so one
+ * registry can be shared by many MCP servers (e.g. one per HTTP session).
+ */
+export function createClusterRegistry(config: ElasticsearchConfig): ClusterRegistry {
+  const validatedConfig = ConfigSchema.parse(config);
 
-      // No auth is also valid (for local development)
-      return true;
-    },
-    {
-      message:
-        "Either ES_API_KEY or both ES_USERNAME and ES_PASSWORD must be provided, or no auth for local development",
-      path: ["username", "password"],
+  let clusterConfigs: Record<string, ClusterConfig>;
+  if (validatedConfig.clusters && Object.keys(validatedConfig.clusters).length > 0) {
+    clusterConfigs = validatedConfig.clusters;
+    if (validatedConfig.url || validatedConfig.cloudId) {
+      console.error("Named clusters are configured - ignoring the single cluster url");
     }
-  );
+  } else {
+    clusterConfigs = {
+      default: ClusterConfigSchema.parse(singleClusterSettings(validatedConfig)),
+    };
+  }
+  const defaultCluster = validatedConfig.defaultCluster || Object.keys(clusterConfigs)[0];
 
-export type ElasticsearchConfig = z.infer<typeof ConfigSchema>;
+  return new ClusterRegistry(clusterConfigs, defaultCluster, {
+    featureProbeTtl: validatedConfig.featureProbeTtl,
+    versionCheckInterval: validatedConfig.versionCheckInterval,
+  });
+}
+
+/** Cleanups of the resources each server holds, run by releaseServerResources() */
+const serverCleanups = new WeakMap<McpServer, Array<() => Promise<void>>>();
+
+/**
+ * Release what a server holds beyond its connection (open PITs and scrolls, continuations)
+ * Call it when the server's session ends; the shared cluster clients stay open
+ */
+export async function releaseServerResources(server: McpServer): Promise<void> {
+  const cleanups = serverCleanups.get(server) || [];
+  serverCleanups.delete(server);
+  await Promise.allSettled(cleanups.map(cleanup => cleanup()));
+}
 
 export async function createElasticsearchMcpServer(
-  config: ElasticsearchConfig
+  config: ElasticsearchConfig,
+  sharedClusters?: ClusterRegistry
 ) {
   const validatedConfig = ConfigSchema.parse(config);
-  const { url, apiKey, username, password, caCert } = validatedConfig;
 
-  // Get token limit configuration
-  const maxTokenCall = parseInt(process.env.MAX_TOKEN_CALL || "20000", 10);
+  // Get token limit configuration; tools may have their own limits
+  const maxTokenCall = validatedConfig.maxTokenCall ?? parseInt(process.env.MAX_TOKEN_CALL || "20000", 10);
+  const tokenLimit = (tool: (typeof TOOL_NAMES)[number]): number =>
+    validatedConfig.tools?.maxTokenCall?.[tool] ?? maxTokenCall;
 
-  console.error("Detecting Elasticsearch version...");
+  // Step 1-5: Connect to the default cluster (once per registry); the others connect on first use
+  const clusters = sharedClusters ?? createClusterRegistry(validatedConfig);
+  const { capabilityManager, privileges } = await clusters.get();
 
-  // Step 1: Detect ES version using native HTTP (no client dependency)
-  const versionInfo = await detectESVersion(url, {
-    username,
-    password,
-    apiKey,
-    rejectUnauthorized: process.env.NODE_TLS_REJECT_UNAUTHORIZED !== '0',
+  // Step 6: Create MCP server
+  const server = new McpServer({
+    name: "elasticsearch-mcp",
+    version: "0.6.2",
   });
+  if (metricsEnabled()) {
+    instrumentTools(server);
+  }
+  const cleanups: Array<() => Promise<void>> = [];
+  serverCleanups.set(server, cleanups);
 
-  console.error(`\n${'='.repeat(60)}`);
-  console.error(`Connected to: ${formatVersionInfo(versionInfo)}`);
-  console.error(`${'='.repeat(60)}\n`);
+  // Shaped results are continued only by the server (session) that produced them
+  const continuations = new ContinuationStore();
+  scopeContinuations(server, continuations);
+  cleanups.push(async () => continuations.clear());
 
-  // Step 2: Create capability manager
-  const capabilityManager = new CapabilityManager(versionInfo);
+  // Step 7: Conditional tool registration
+  const dataStreams = capabilityManager.getFeatureStatus("data_streams");
+  const lifecycle = capabilityManager.isOpenSearch()
+    ? capabilityManager.getFeatureStatus("ism")
+    : capabilityManager.getFeatureStatus("ilm");
+  const lifecycleTool = capabilityManager.isOpenSearch() ? "ism_status" : "ilm_status";
+  const sql = capabilityManager.getFeatureStatus("sql");
 
-  // Print capability summary
-  console.error(capabilityManager.getFeatureSummary());
-  console.error();
+  // With several clusters a tool may work on one and not another, so every tool is registered and checked per call
+  const gated = clusters.getNames().length === 1;
+
+  console.error("Registering tools...");
+  
+  const registeredTools: string[] = [];
+  const skippedTools: string[] = [];
+
+  // Skip tools turned off in the configuration, and tools missing a required cluster privilege;
+  // index privileges only narrow what a tool sees
+  const { enabled, disabled } = validatedConfig.tools || {};
+  const permitted = (tool: (typeof TOOL_NAMES)[number]): boolean => {
+    if ((enabled && !enabled.includes(tool)) || disabled?.includes(tool)) {
+      skippedTools.push(`${tool} (disabled in configuration)`);
+      return false;
+    }
 
-  // Step 3: Build client options
-  const clientOptions: ClientOptions = {
-    node: url,
-    maxRetries: 5,
-    requestTimeout: 60000, // 60 seconds
-    compression: true
+    const access = privileges.tools[tool];
+    if (gated && access && !access.allowed) {
+      skippedTools.push(`${tool} (${formatMissingPrivileges(access)})`);
+      return false;
+    }
+    return true;
   };
 
-  // Set up authentication
-  if (apiKey) {
-    clientOptions.auth = { apiKey };
-  } else if (username && password) {
-    clientOptions.auth = { username, password };
-  }
-
-  // Set up SSL/TLS certificate if provided
-  if (caCert) {
-    try {
-      const ca = fs.readFileSync(caCert);
-      clientOptions.tls = { ca };
-    } catch (error) {
-      console.error(
-        `Failed to read certificate file: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
+  // Tools registered with reduced access are listed with what they are missing
+  const registered = (tool: string, label: string = tool) => {
+    registeredTools.push(label);
+    const access = privileges.tools[tool];
+    if (gated && access && (access.missingOptionalCluster.length > 0 || access.missingIndex.length > 0)) {
+      skippedTools.push(`${tool} partially (${formatMissingPrivileges(access)})`);
     }
+  };
+
+  // Always register basic tools (supported in all versions)
+  if (permitted("list_indices")) {
+    registerListIndices(server, clusters, tokenLimit("list_indices"));
+    registered("list_indices");
   }
 
-  // Handle self-signed certificates
-  if (process.env.NODE_TLS_REJECT_UNAUTHORIZED === '0') {
-    clientOptions.tls = clientOptions.tls || {};
-    (clientOptions.tls as any).rejectUnauthorized = false;
+  if (permitted("get_mappings")) {
+    registerGetMappings(server, clusters, tokenLimit("get_mappings"));
+    registered("get_mappings");
   }
 
-  // Step 4: Create version-specific client
-  console.error("Loading appropriate Elasticsearch client...");
-  const esClient = await createVersionedClient(versionInfo, clientOptions);
+  // Index/component templates on ES 7.8+, legacy templates on every version
+  if (permitted("get_templates")) {
+    registerGetTemplates(server, clusters, tokenLimit("get_templates"));
+    registered("get_templates");
+  }
 
-  // Step 5: Verify connection
-  console.error("Verifying connection...");
-  const connected = await verifyConnection(esClient);
-  if (!connected) {
-    throw new Error("Failed to verify connection to Elasticsearch");
+  if (permitted("es_search")) {
+    registerSearch(server, clusters, tokenLimit("es_search"));
+    registered("es_search");
   }
-  console.error("Connection verified ✓\n");
 
-  // Step 6: Create MCP server
-  const server = new McpServer({
-    name: "elasticsearch-mcp",
-    version: "0.6.2",
-  });
+  // Point in time (ES 7.12+) with scroll fallback on older versions
+  if (permitted("paginate_search")) {
+    const cursorStore = registerPaginateSearch(server, clusters, tokenLimit("paginate_search"));
+    cleanups.push(() => cursorStore.closeAll());
+    registered("paginate_search");
+  }
 
-  // Step 7: Conditional tool registration
-  console.error("Registering tools...");
-  
-  const registeredTools: string[] = [];
-  const skippedTools: string[] = [];
+  if (permitted("execute_es_api")) {
+    const apiPolicy = new ApiPolicy(apiPolicyConfigFromSettings(validatedConfig.apiPolicy));
+    registerExecuteApi(server, clusters, tokenLimit("execute_es_api"), apiPolicy);
+    registered("execute_es_api", apiPolicy.getConfig().readOnly ? "execute_es_api (read-only)" : "execute_es_api");
+  }
 
-  // Always register basic tools (supported in all versions)
-  registerListIndices(server, esClient, maxTokenCall);
-  registeredTools.push("list_indices");
+  if (permitted("get_shards")) {
+    registerGetShards(server, clusters, tokenLimit("get_shards"));
+    registered("get_shards");
+  }
 
-  registerGetMappings(server, esClient, maxTokenCall);
-  registeredTools.push("get_mappings");
+  if (permitted("explain_allocation")) {
+    registerExplainAllocation(server, clusters, tokenLimit("explain_allocation"));
+    registered("explain_allocation");
+  }
 
-  registerSearch(server, esClient, maxTokenCall);
-  registeredTools.push("es_search");
+  // Watermarks and thread pool names depend on the version
+  if (permitted("node_stats")) {
+    registerNodeStats(server, clusters, tokenLimit("node_stats"));
+    registered("node_stats");
+  }
 
-  registerExecuteApi(server, esClient, maxTokenCall);
-  registeredTools.push("execute_es_api");
+  if (permitted("cluster_overview")) {
+    registerClusterOverview(server, clusters, tokenLimit("cluster_overview"));
+    registered("cluster_overview");
+  }
 
-  registerGetShards(server, esClient, maxTokenCall);
-  registeredTools.push("get_shards");
+  // Fetches the remainder of results shaped to fit the token limit
+  if (permitted("continue_result")) {
+    registerContinueResult(server, tokenLimit("continue_result"));
+    registered("continue_result");
+  }
 
-  // Conditional: Data Streams (ES 7.9+)
-  if (capabilityManager.supportsDataStreams()) {
-    registerListDataStreams(server, esClient, maxTokenCall);
-    registeredTools.push("list_data_streams");
-  } else {
-    skippedTools.push("list_data_streams (requires ES 7.9+)");
+  // Configured clusters with their version and what each one supports
+  if (permitted("list_clusters")) {
+    registerListClusters(server, clusters, tokenLimit("list_clusters"));
+    registered("list_clusters");
+  }
+
+  // Conditional: Data Streams (ES 7.9+, X-Pack)
+  if (gated && !dataStreams.supported) {
+    skippedTools.push(`list_data_streams (${dataStreams.reason})`);
+  } else if (permitted("list_data_streams")) {
+    registerListDataStreams(server, clusters, tokenLimit("list_data_streams"));
+    registered("list_data_streams");
+  }
+
+  // Conditional: ILM (ES 6.6+, X-Pack), or ISM on OpenSearch
+  if (gated && !lifecycle.supported) {
+    skippedTools.push(`${lifecycleTool} (${lifecycle.reason})`);
+  } else if (permitted(lifecycleTool)) {
+    registerIlmStatus(server, clusters, tokenLimit(lifecycleTool));
+    registered(lifecycleTool);
+  }
+
+  // Conditional: SQL (ES 6.3+, X-Pack), SQL and PPL on OpenSearch
+  if (gated && !sql.supported) {
+    skippedTools.push(`sql_query (${sql.reason})`);
+  } else if (permitted("sql_query")) {
+    registerSqlQuery(server, clusters, tokenLimit("sql_query"));
+    registered("sql_query", capabilityManager.supportsPPL() ? "sql_query (SQL, PPL)" : "sql_query");
   }
 
   console.error(`✓ Registered tools: ${registeredTools.join(", ")}`);
@@ -0,0 +1,141 @@
+/**
+ * Session Manager - Lifecycle of the streamable HTTP sessions
+ * Each session holds a transport, its McpServer and, with a per-session API key,
+ * its own cluster clients. Idle sessions expire, the oldest idle session is evicted
+ * when the limit is reached, and all sessions are closed when the server drains.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { ClusterRegistry } from './cluster-registry.js';
+
+export interface McpSession {
+  id: string;
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Identifies the credentials that opened the session */
+  owner: string;
+  /** Clients of a session that brought its own API key */
+  clusters?: ClusterRegistry;
+  /** Releases what the session holds (cursors, continuations) */
+  cleanup?: () => Promise<void>;
+  lastActivity: number;
+  /** Open SSE streams; a session with an open stream is not idle */
+  openStreams: number;
+}
+
+export class SessionManager {
+  private sessions = new Map<string, McpSession>();
+  private sweeper?: NodeJS.Timeout;
+  private draining = false;
+
+  constructor(
+    private idleTimeoutMs: number,
+    private maxSessions: number = 100,
+    sweepIntervalMs: number = 30_000
+  ) {
+    // A timeout of 0 keeps sessions until they are deleted or evicted
+    if (idleTimeoutMs > 0) {
+      this.sweeper = setInterval(() => {
+        void this.sweep();
+      }, Math.min(sweepIntervalMs, idleTimeoutMs));
+      // Do not keep the process alive just for session cleanup
+      this.sweeper.unref();
+    }
+  }
+
+  /**
+   * Track a new session, evicting the least recently active one when full
+   */
+  async add(session: Omit<McpSession, 'lastActivity' | 'openStreams'>): Promise<McpSession> {
+    if (this.sessions.size >= this.maxSessions) {
+      const oldest = [...this.sessions.values()]
+        .filter(s => s.openStreams === 0)
+        .sort((a, b) => a.lastActivity - b.lastActivity)[0]
+        ?? [...this.sessions.values()].sort((a, b) => a.lastActivity - b.lastActivity)[0];
+      if (oldest) {
+        await this.close(oldest.id, 'evicted, session limit reached');
+      }
+    }
+
+    const stored: McpSession = { ...session, lastActivity: Date.now(), openStreams: 0 };
+    this.sessions.set(stored.id, stored);
+    return stored;
+  }
+
+  /**
+   * Look up a session and mark it active
+   */
+  get(id: string): McpSession | undefined {
+    const session = this.sessions.get(id);
+    if (session) {
+      session.lastActivity = Date.now();
+    }
+    return session;
+  }
+
+  /**
+   * Count an SSE stream as open until the response closes
+   */
+  trackStream(session: McpSession, response: { once(event: 'close', listener: () => void): unknown }): void {
+    session.openStreams++;
+    response.once('close', () => {
+      session.openStreams--;
+      session.lastActivity = Date.now();
+    });
+  }
+
+  /**
+   * Remove a session, release its resources and close its server, transport and own clients
+   */
+  async close(id: string, reason: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) return false;
+
+    this.sessions.delete(id);
+    try {
+      // Before the clients close, so PITs and scrolls can still be released on the cluster
+      await session.cleanup?.();
+      await session.server.close();
+      await session.clusters?.close();
+    } catch (error) {
+      console.error(
+        `Failed to close MCP session ${id}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+    process.stderr.write(`MCP session closed: ${id} (${reason})\n`);
+    return true;
+  }
+
+  /**
+   * Close every session idle for longer than the timeout
+   */
+  async sweep(): Promise<number> {
+    if (this.idleTimeoutMs <= 0) return 0;
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    const idle = [...this.sessions.values()].filter(s => s.openStreams === 0 && s.lastActivity <= cutoff);
+    for (const session of idle) {
+      await this.close(session.id, 'idle timeout');
+    }
+    return idle.length;
+  }
+
+  /**
+   * Stop accepting sessions, close all of them and stop the sweeper
+   */
+  async drain(): Promise<void> {
+    this.draining = true;
+    clearInterval(this.sweeper);
+    await Promise.allSettled([...this.sessions.keys()].map(id => this.close(id, 'server shutting down')));
+  }
+
+  isDraining(): boolean {
+    return this.draining;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+}
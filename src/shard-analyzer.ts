@@ -3,7 +3,7 @@
  * Phase 1: Core health checks and token optimization
  */
 
-interface ShardInfo {
+export interface ShardInfo {
   index?: string;
   shard?: string;
   prirep?: string; // 'p' for primary, 'r' for replica
@@ -14,7 +14,7 @@ interface ShardInfo {
   node?: string | null;
 }
 
-interface ShardHealthMetrics {
+export interface ShardHealthMetrics {
   total_shards: number;
   primary_shards: number;
   replica_shards: number;
@@ -686,8 +686,8 @@ export function generateShardRecommendations(metrics: ShardHealthMetrics): strin
     recommendations.push(
       `[HIGH] Fix ${metrics.problem_shards.unassigned.length} Unassigned Shards\n` +
       `   Affected: ${affectedIndices.size} indices\n` +
-      `   Action: Check cluster allocation explain\n` +
-      `   Command: GET _cluster/allocation/explain`
+      `   Action: Check why they cannot be allocated\n` +
+      `   Command: explain_allocation tool, or get_shards with explain_allocation: true`
     );
   }
 
@@ -0,0 +1,460 @@
+/**
+ * Template Analyzer - Resolve which index templates apply to an index name
+ * and how their settings, mappings and aliases merge
+ * Composable templates (ES 7.8+): the single matching template with the highest
+ * priority wins and its component templates are applied in composed_of order.
+ * Legacy templates: every match applies, lower order first, higher order overrides.
+ */
+
+export type TemplateKind = 'composable' | 'component' | 'legacy';
+
+export interface TemplateSource {
+  name: string;
+  kind: TemplateKind;
+  index_patterns: string[];
+  priority: number;          // priority (composable) or order (legacy)
+  composed_of: string[];
+  data_stream: boolean;
+  version?: number;
+  settings: Record<string, any>;
+  mappings: Record<string, any>;
+  aliases: Record<string, any>;
+}
+
+export interface TemplateLayer {
+  source: string;            // e.g. "component:logs-mappings"
+  settings: Record<string, any>;
+  mappings: Record<string, any>;
+  aliases: Record<string, any>;
+}
+
+export interface MergedTemplate {
+  settings: Record<string, any>;          // Flat settings keys
+  properties: Record<string, any>;        // Merged mapping properties
+  mapping_extras: Record<string, any>;    // dynamic, _source, dynamic_templates, ...
+  aliases: Record<string, any>;
+  setting_sources: Record<string, string>;
+  field_sources: Record<string, string>;
+  alias_sources: Record<string, string>;
+  overridden: Array<{ key: string; from: string; by: string }>;
+}
+
+export interface TemplateResolution {
+  name: string;
+  winner?: TemplateSource;
+  shadowed: TemplateSource[];      // Matching composable templates with lower priority
+  legacy: TemplateSource[];        // Matching legacy templates in merge order
+  legacy_ignored: boolean;         // Legacy templates do not apply when a composable one matches
+  missing_components: string[];
+  layers: TemplateLayer[];
+  merged: MergedTemplate;
+  simulated: boolean;              // merged values come from _index_template/_simulate_index
+  overlapping: string[];           // Lower priority templates reported by the simulation
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Flatten settings to dotted keys with the implicit "index." prefix
+ * ({ index: { number_of_shards: 1 } } and { number_of_shards: 1 } both become index.number_of_shards)
+ */
+export function flattenSettings(settings: any, prefix: string = ''): Record<string, any> {
+  const flat: Record<string, any> = {};
+  if (!isPlainObject(settings)) return flat;
+
+  for (const [key, value] of Object.entries(settings)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      Object.assign(flat, flattenSettings(value, path));
+    } else {
+      flat[path.startsWith('index.') ? path : `index.${path}`] = value;
+    }
+  }
+  return flat;
+}
+
+/**
+ * Get mapping properties, merging mapping types on ES 5.x/6.x templates
+ */
+export function templateProperties(mappings: any): { properties: Record<string, any>; extras: Record<string, any> } {
+  if (!isPlainObject(mappings)) return { properties: {}, extras: {} };
+
+  if (isPlainObject(mappings.properties) || !Object.values(mappings).some(v => isPlainObject(v) && isPlainObject(v.properties))) {
+    const { properties, ...extras } = mappings;
+    return { properties: properties || {}, extras };
+  }
+
+  // Typed mappings: { <type>: { properties, ... } }
+  let properties: Record<string, any> = {};
+  let extras: Record<string, any> = {};
+  for (const typeMapping of Object.values<any>(mappings)) {
+    if (!isPlainObject(typeMapping)) continue;
+    const { properties: typeProperties, ...typeExtras } = typeMapping;
+    properties = deepMerge(properties, typeProperties || {});
+    extras = { ...extras, ...typeExtras };
+  }
+  return { properties, extras };
+}
+
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? deepMerge(result[key], value)
+      : value;
+  }
+  return result;
+}
+
+/**
+ * Collect field paths of a properties object (object fields included)
+ */
+function fieldPaths(properties: Record<string, any>, prefix: string = ''): string[] {
+  const paths: string[] = [];
+  for (const [name, definition] of Object.entries<any>(properties || {})) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    paths.push(path);
+    if (isPlainObject(definition?.properties)) {
+      paths.push(...fieldPaths(definition.properties, path));
+    }
+  }
+  return paths;
+}
+
+/**
+ * Normalize GET _template
+ */
+export function normalizeLegacyTemplates(response: any): TemplateSource[] {
+  return Object.entries<any>(response || {}).map(([name, template]) => ({
+    name,
+    kind: 'legacy' as const,
+    // ES 5.x uses a single "template" pattern
+    index_patterns: template.index_patterns || (template.template ? [template.template] : []),
+    priority: template.order ?? 0,
+    composed_of: [],
+    data_stream: false,
+    version: template.version,
+    settings: template.settings || {},
+    mappings: template.mappings || {},
+    aliases: template.aliases || {},
+  }));
+}
+
+/**
+ * Normalize GET _index_template
+ */
+export function normalizeIndexTemplates(response: any): TemplateSource[] {
+  return (response?.index_templates || []).map((entry: any) => {
+    const template = entry.index_template || {};
+    return {
+      name: entry.name,
+      kind: 'composable' as const,
+      index_patterns: Array.isArray(template.index_patterns)
+        ? template.index_patterns
+        : template.index_patterns ? [template.index_patterns] : [],
+      priority: template.priority ?? 0,
+      composed_of: template.composed_of || [],
+      data_stream: !!template.data_stream,
+      version: template.version,
+      settings: template.template?.settings || {},
+      mappings: template.template?.mappings || {},
+      aliases: template.template?.aliases || {},
+    };
+  });
+}
+
+/**
+ * Normalize GET _component_template
+ */
+export function normalizeComponentTemplates(response: any): Map<string, TemplateSource> {
+  const components = new Map<string, TemplateSource>();
+  for (const entry of response?.component_templates || []) {
+    const template = entry.component_template || {};
+    components.set(entry.name, {
+      name: entry.name,
+      kind: 'component',
+      index_patterns: [],
+      priority: 0,
+      composed_of: [],
+      data_stream: false,
+      version: template.version,
+      settings: template.template?.settings || {},
+      mappings: template.template?.mappings || {},
+      aliases: template.template?.aliases || {},
+    });
+  }
+  return components;
+}
+
+/**
+ * Match an index name against a template pattern ('*' wildcards)
+ */
+export function matchesIndexPattern(pattern: string, name: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+function matchesName(template: TemplateSource, name: string): boolean {
+  return template.index_patterns.some(pattern => matchesIndexPattern(pattern, name));
+}
+
+function toLayer(source: string, template: TemplateSource): TemplateLayer {
+  return {
+    source,
+    settings: template.settings,
+    mappings: template.mappings,
+    aliases: template.aliases,
+  };
+}
+
+/**
+ * Merge layers in order, recording which layer set each setting, field and alias
+ */
+export function mergeTemplateLayers(layers: TemplateLayer[]): MergedTemplate {
+  const merged: MergedTemplate = {
+    settings: {},
+    properties: {},
+    mapping_extras: {},
+    aliases: {},
+    setting_sources: {},
+    field_sources: {},
+    alias_sources: {},
+    overridden: [],
+  };
+
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(flattenSettings(layer.settings))) {
+      const previous = merged.setting_sources[key];
+      if (previous && JSON.stringify(merged.settings[key]) !== JSON.stringify(value)) {
+        merged.overridden.push({ key: `setting ${key}`, from: previous, by: layer.source });
+      }
+      merged.settings[key] = value;
+      merged.setting_sources[key] = layer.source;
+    }
+
+    const { properties, extras } = templateProperties(layer.mappings);
+    for (const path of fieldPaths(properties)) {
+      const previous = merged.field_sources[path];
+      if (previous && previous !== layer.source) {
+        merged.overridden.push({ key: `field ${path}`, from: previous, by: layer.source });
+      }
+      merged.field_sources[path] = layer.source;
+    }
+    merged.properties = deepMerge(merged.properties, properties);
+    merged.mapping_extras = deepMerge(merged.mapping_extras, extras);
+
+    for (const [alias, definition] of Object.entries(layer.aliases || {})) {
+      merged.aliases[alias] = definition;
+      merged.alias_sources[alias] = layer.source;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Resolve the templates that apply to an index or data stream name
+ */
+export function resolveTemplates(
+  name: string,
+  composable: TemplateSource[],
+  components: Map<string, TemplateSource>,
+  legacy: TemplateSource[]
+): TemplateResolution {
+  const matching = composable
+    .filter(template => matchesName(template, name))
+    .sort((a, b) => b.priority - a.priority);
+
+  const winner = matching[0];
+  const legacyMatches = legacy
+    .filter(template => matchesName(template, name))
+    .sort((a, b) => a.priority - b.priority);
+
+  const layers: TemplateLayer[] = [];
+  const missing: string[] = [];
+
+  if (winner) {
+    for (const componentName of winner.composed_of) {
+      const component = components.get(componentName);
+      if (component) {
+        layers.push(toLayer(`component:${componentName}`, component));
+      } else {
+        missing.push(componentName);
+      }
+    }
+    layers.push(toLayer(`index_template:${winner.name}`, winner));
+  } else {
+    for (const template of legacyMatches) {
+      layers.push(toLayer(`legacy:${template.name}`, template));
+    }
+  }
+
+  return {
+    name,
+    winner,
+    shadowed: matching.slice(1),
+    legacy: legacyMatches,
+    legacy_ignored: !!winner && legacyMatches.length > 0,
+    missing_components: missing,
+    layers,
+    merged: mergeTemplateLayers(layers),
+    simulated: false,
+    overlapping: [],
+  };
+}
+
+/**
+ * Replace the client-side merge with the result of _index_template/_simulate_index,
+ * keeping the per-layer sources where they are known
+ */
+export function applySimulation(resolution: TemplateResolution, simulation: any): TemplateResolution {
+  const template = simulation?.template;
+  if (!template) return resolution;
+
+  const { properties, extras } = templateProperties(template.mappings || {});
+  return {
+    ...resolution,
+    merged: {
+      ...resolution.merged,
+      settings: flattenSettings(template.settings || {}),
+      properties,
+      mapping_extras: extras,
+      aliases: template.aliases || {},
+    },
+    simulated: true,
+    overlapping: (simulation.overlapping || []).map((entry: any) => entry.name),
+  };
+}
+
+/**
+ * Format a list of templates, highest priority first
+ */
+export function formatTemplateList(templates: TemplateSource[]): string {
+  let text = `📑 Templates (${templates.length})\n`;
+  text += `${'='.repeat(70)}\n`;
+
+  const sections: Array<[TemplateKind, string]> = [
+    ['composable', 'Index Templates (priority)'],
+    ['component', 'Component Templates'],
+    ['legacy', 'Legacy Templates (order)'],
+  ];
+
+  for (const [kind, title] of sections) {
+    const group = templates
+      .filter(template => template.kind === kind)
+      .sort((a, b) => b.priority - a.priority || a.name.localeCompare(b.name));
+    if (group.length === 0) continue;
+
+    text += `\n${title}:\n`;
+    text += `${'─'.repeat(70)}\n`;
+    for (const template of group) {
+      text += `  ${template.name}`;
+      if (kind !== 'component') {
+        text += ` [${template.priority}] → ${template.index_patterns.join(', ')}`;
+      }
+      if (template.data_stream) {
+        text += ` (data stream)`;
+      }
+      text += `\n`;
+      if (template.composed_of.length > 0) {
+        text += `     composed_of: ${template.composed_of.join(', ')}\n`;
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Format which templates apply and in which order
+ */
+export function formatResolution(resolution: TemplateResolution): string {
+  let text = `📑 Templates for: ${resolution.name}\n`;
+  text += `${'='.repeat(70)}\n\n`;
+
+  if (resolution.winner) {
+    const winner = resolution.winner;
+    text += `Index template:   ${winner.name} (priority ${winner.priority}`;
+    text += `${winner.data_stream ? ', data stream' : ''}) → ${winner.index_patterns.join(', ')}\n`;
+    if (winner.composed_of.length > 0) {
+      text += `Composed of:      ${winner.composed_of.join(' → ')}\n`;
+    }
+    if (resolution.missing_components.length > 0) {
+      text += `⚠️  Missing components: ${resolution.missing_components.join(', ')}\n`;
+    }
+    if (resolution.shadowed.length > 0) {
+      text += `Not applied:      ${resolution.shadowed.map(t => `${t.name} (priority ${t.priority})`).join(', ')}`;
+      text += ` - only the highest priority template applies\n`;
+    }
+    if (resolution.legacy_ignored) {
+      text += `Ignored legacy:   ${resolution.legacy.map(t => t.name).join(', ')} - legacy templates do not apply when an index template matches\n`;
+    }
+  } else if (resolution.legacy.length > 0) {
+    text += `Legacy templates: ${resolution.legacy.map(t => `${t.name} (order ${t.priority})`).join(' → ')}\n`;
+    text += `                  (applied in this order, later ones override earlier ones)\n`;
+  } else {
+    text += `No template matches this name\n`;
+    return text;
+  }
+
+  text += `Merge order:      ${resolution.layers.map(layer => layer.source).join(' → ')}\n`;
+  if (resolution.simulated) {
+    text += `Result:           simulated by Elasticsearch (_index_template/_simulate_index)\n`;
+  }
+  if (resolution.overlapping.length > 0) {
+    text += `Overlapping:      ${resolution.overlapping.join(', ')}\n`;
+  }
+  text += `\n`;
+
+  const { merged } = resolution;
+
+  // Settings with their source
+  const settingKeys = Object.keys(merged.settings).sort();
+  text += `Settings (${settingKeys.length}):\n`;
+  text += `${'─'.repeat(70)}\n`;
+  for (const key of settingKeys) {
+    text += `  ${key} = ${JSON.stringify(merged.settings[key])}  ← ${merged.setting_sources[key] || 'default'}\n`;
+  }
+  text += `\n`;
+
+  // Aliases with their source
+  const aliasNames = Object.keys(merged.aliases);
+  if (aliasNames.length > 0) {
+    text += `Aliases (${aliasNames.length}):\n`;
+    text += `${'─'.repeat(70)}\n`;
+    for (const alias of aliasNames) {
+      const definition = merged.aliases[alias];
+      const options = definition && Object.keys(definition).length > 0 ? ` ${JSON.stringify(definition)}` : '';
+      text += `  ${alias}${options}  ← ${merged.alias_sources[alias] || 'default'}\n`;
+    }
+    text += `\n`;
+  }
+
+  // Where fields come from
+  const fieldCounts: Record<string, number> = {};
+  for (const source of Object.values(merged.field_sources)) {
+    fieldCounts[source] = (fieldCounts[source] || 0) + 1;
+  }
+  if (Object.keys(fieldCounts).length > 0) {
+    text += `Mapping fields by template: `;
+    text += Object.entries(fieldCounts).map(([source, count]) => `${source}(${count})`).join(' ');
+    text += `\n`;
+  }
+
+  if (merged.overridden.length > 0) {
+    text += `\nOverrides (${merged.overridden.length}):\n`;
+    for (const override of merged.overridden.slice(0, 20)) {
+      text += `  • ${override.key}: ${override.from} → ${override.by}\n`;
+    }
+    if (merged.overridden.length > 20) {
+      text += `  ... and ${merged.overridden.length - 20} more\n`;
+    }
+  }
+
+  return text;
+}
@@ -0,0 +1,271 @@
+/**
+ * Token Counter - Shared token counting service
+ * Builds each tiktoken encoder once, memoizes recent counts and counts large
+ * texts in chunks so a budget check can stop as soon as the budget is passed.
+ * JSON values are serialized piece by piece, so an oversized result is neither
+ * fully serialized nor fully tokenized.
+ */
+
+import { createHash } from "crypto";
+import {
+  encoding_for_model,
+  get_encoding,
+  type Tiktoken,
+  type TiktokenEncoding,
+  type TiktokenModel,
+} from "tiktoken";
+
+/**
+ * "approx" skips tokenization and estimates ~4 characters per token,
+ * useful when the consuming model's tokenizer is not a tiktoken encoding
+ */
+export type TokenEncodingName = TiktokenEncoding | "approx";
+
+export interface TokenCounterOptions {
+  encoding?: TokenEncodingName;
+  model?: TiktokenModel;
+}
+
+export interface BoundedTokenCount {
+  tokens: number;      // Exact count, or the count reached when stopping early
+  exceeded: boolean;   // True if the budget was passed
+  exact: boolean;      // False when counting stopped early
+}
+
+const TIKTOKEN_ENCODINGS: TiktokenEncoding[] = [
+  "gpt2",
+  "r50k_base",
+  "p50k_base",
+  "p50k_edit",
+  "cl100k_base",
+  "o200k_base",
+];
+
+// Texts are counted in chunks of this many characters
+const CHUNK_SIZE = 16 * 1024;
+// Only texts at least this long are memoized, keyed by their digest rather than the text
+const MEMO_MIN_LENGTH = 256;
+const MEMO_MAX_ENTRIES = 32;
+
+// Encoders are expensive to build and hold WASM memory; one per encoding.
+// A null entry records an encoding that failed to load.
+const encoderCache = new Map<string, Tiktoken | null>();
+
+function getEncoder(options: TokenCounterOptions): Tiktoken | null {
+  const key = options.encoding || `model:${options.model || "gpt-4"}`;
+  if (key === "approx") return null;
+
+  if (!encoderCache.has(key)) {
+    try {
+      encoderCache.set(
+        key,
+        options.encoding
+          ? get_encoding(options.encoding as TiktokenEncoding)
+          : encoding_for_model(options.model || "gpt-4")
+      );
+    } catch (error) {
+      console.error(`Error loading token encoder ${key}, falling back to estimation:`, error);
+      encoderCache.set(key, null);
+    }
+  }
+  return encoderCache.get(key) ?? null;
+}
+
+/**
+ * Where to cut a chunk off the front of the text, preferring to cut after
+ * whitespace so that chunk boundaries rarely split a token
+ */
+function chunkEnd(text: string): number {
+  const end = Math.min(CHUNK_SIZE, text.length);
+  if (end < text.length) {
+    const cut = text.lastIndexOf("\n", end);
+    const space = cut > 0 ? cut : text.lastIndexOf(" ", end);
+    if (space > 0) {
+      return space + 1;
+    }
+  }
+  return end;
+}
+
+function isSkippedInJson(value: any): boolean {
+  return value === undefined || typeof value === "function" || typeof value === "symbol";
+}
+
+function toJsonValue(value: any): any {
+  return value !== null && typeof value === "object" && typeof value.toJSON === "function"
+    ? value.toJSON()
+    : value;
+}
+
+/**
+ * Serialize a value (after toJSON) to the same text as JSON.stringify, a piece at a time
+ */
+function* jsonPieces(value: any): Generator<string> {
+  if (typeof value === "string") {
+    if (value.length <= CHUNK_SIZE) {
+      yield JSON.stringify(value);
+      return;
+    }
+    yield '"';
+    for (let start = 0; start < value.length; ) {
+      let end = Math.min(start + CHUNK_SIZE, value.length);
+      // Keep surrogate pairs together so each piece is escaped as in the whole string
+      const last = value.charCodeAt(end - 1);
+      if (end < value.length && last >= 0xd800 && last <= 0xdbff) {
+        end--;
+      }
+      yield JSON.stringify(value.slice(start, end)).slice(1, -1);
+      start = end;
+    }
+    yield '"';
+  } else if (Array.isArray(value)) {
+    yield "[";
+    for (let i = 0; i < value.length; i++) {
+      if (i > 0) yield ",";
+      const item = toJsonValue(value[i]);
+      if (isSkippedInJson(item)) {
+        yield "null";
+      } else {
+        yield* jsonPieces(item);
+      }
+    }
+    yield "]";
+  } else if (value !== null && typeof value === "object") {
+    yield "{";
+    let first = true;
+    for (const [key, entry] of Object.entries(value)) {
+      const item = toJsonValue(entry);
+      if (isSkippedInJson(item)) continue;
+      yield `${first ? "" : ","}${JSON.stringify(key)}:`;
+      first = false;
+      yield* jsonPieces(item);
+    }
+    yield "}";
+  } else if (!isSkippedInJson(value)) {
+    yield JSON.stringify(value);
+  }
+}
+
+export class TokenCounter {
+  private memo = new Map<string, number>();
+
+  constructor(private options: TokenCounterOptions = {}) {}
+
+  /**
+   * Name of the active encoding, for display
+   */
+  getEncodingName(): string {
+    return this.options.encoding || `model:${this.options.model || "gpt-4"}`;
+  }
+
+  /**
+   * Count all tokens in a text
+   */
+  count(text: string): number {
+    return this.countUpTo(text, Number.POSITIVE_INFINITY).tokens;
+  }
+
+  /**
+   * Count tokens, stopping once the budget is passed
+   */
+  countUpTo(text: string, budget: number): BoundedTokenCount {
+    // Estimates are cheaper than hashing the text
+    const memoize = text.length >= MEMO_MIN_LENGTH && getEncoder(this.options) !== null;
+    const key = memoize ? createHash("sha1").update(text).digest("base64") : undefined;
+    const memoized = key !== undefined ? this.memo.get(key) : undefined;
+    if (memoized !== undefined) {
+      return { tokens: memoized, exceeded: memoized > budget, exact: true };
+    }
+
+    const result = this.countPieces([text], budget);
+    if (key !== undefined && result.exact) {
+      this.remember(key, result.tokens);
+    }
+    return result;
+  }
+
+  /**
+   * Count tokens of a value serialized as JSON, stopping once the budget is passed
+   * Serialization stops there too; these counts are not memoized
+   */
+  countJsonUpTo(value: any, budget: number): BoundedTokenCount {
+    return this.countPieces(jsonPieces(toJsonValue(value)), budget);
+  }
+
+  private countPieces(pieces: Iterable<string>, budget: number): BoundedTokenCount {
+    let encoder = getEncoder(this.options);
+    let tokens = 0;
+    let pending = "";
+
+    const encode = (chunk: string): number => {
+      if (encoder) {
+        try {
+          return encoder.encode_ordinary(chunk).length;
+        } catch (error) {
+          console.error("Error calculating tokens:", error);
+          encoder = null;
+        }
+      }
+      // Rough estimation: ~4 characters per token
+      return chunk.length / 4;
+    };
+
+    for (const piece of pieces) {
+      pending += piece;
+      while (pending.length >= CHUNK_SIZE) {
+        const end = chunkEnd(pending);
+        tokens += encode(pending.slice(0, end));
+        pending = pending.slice(end);
+        if (tokens > budget) {
+          return { tokens: Math.ceil(tokens), exceeded: true, exact: false };
+        }
+      }
+    }
+    if (pending.length > 0) {
+      tokens += encode(pending);
+    }
+
+    tokens = Math.ceil(tokens);
+    return { tokens, exceeded: tokens > budget, exact: true };
+  }
+
+  private remember(key: string, tokens: number): void {
+    if (this.memo.size >= MEMO_MAX_ENTRIES) {
+      const oldest = this.memo.keys().next().value;
+      if (oldest !== undefined) {
+        this.memo.delete(oldest);
+      }
+    }
+    this.memo.set(key, tokens);
+  }
+}
+
+/**
+ * Parse an encoding or model name from configuration
+ */
+export function parseTokenCounterOptions(value: string | undefined): TokenCounterOptions {
+  if (!value) return {};
+
+  const name = value.trim();
+  if (name === "approx" || TIKTOKEN_ENCODINGS.includes(name as TiktokenEncoding)) {
+    return { encoding: name as TokenEncodingName };
+  }
+  return { model: name as TiktokenModel };
+}
+
+let defaultCounter = new TokenCounter(parseTokenCounterOptions(process.env.TOKEN_ENCODING));
+
+/**
+ * Get the shared token counter
+ */
+export function getTokenCounter(): TokenCounter {
+  return defaultCounter;
+}
+
+/**
+ * Replace the shared token counter's encoding (e.g. from configuration)
+ */
+export function configureTokenCounter(options: TokenCounterOptions): TokenCounter {
+  defaultCounter = new TokenCounter(options);
+  return defaultCounter;
+}
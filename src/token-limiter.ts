@@ -1,4 +1,6 @@
-import { encoding_for_model, TiktokenModel } from "tiktoken";
+import type { TiktokenModel } from "tiktoken";
+import { getTokenCounter, TokenCounter } from "./token-counter.js";
+import { markTokenLimited, recordResultTokens } from "./metrics.js";
 
 export interface TokenCheckResult {
   allowed: boolean;
@@ -7,27 +9,31 @@ export interface TokenCheckResult {
 }
 
 /**
- * Calculate the number of tokens in a text using tiktoken
+ * Calculate the number of tokens in a text using the shared token counter
  * @param text The text to calculate tokens for
- * @param model The model to use for token calculation (default: gpt-4)
+ * @param model Optional model to count for instead of the configured encoding
  * @returns The number of tokens
  */
-export function calculateTokens(text: string, model: TiktokenModel = "gpt-4"): number {
-  try {
-    const encoding = encoding_for_model(model);
-    const tokens = encoding.encode(text);
-    const tokenCount = tokens.length;
-    encoding.free();
-    return tokenCount;
-  } catch (error) {
-    console.error("Error calculating tokens:", error);
-    // Fallback to rough estimation if tiktoken fails: ~4 characters per token
-    return Math.ceil(text.length / 4);
-  }
+export function calculateTokens(text: string, model?: TiktokenModel): number {
+  const counter = model ? new TokenCounter({ model }) : getTokenCounter();
+  return counter.count(text);
+}
+
+/**
+ * Count the tokens of a text a tool returns, recording them for the tool call metrics
+ * @param text The result text
+ * @returns The number of tokens
+ */
+export function countResultTokens(text: string): number {
+  const tokens = calculateTokens(text);
+  recordResultTokens(tokens);
+  return tokens;
 }
 
 /**
  * Check if the result exceeds the token limit
+ * Counting stops as soon as the limit is passed, so for rejected results
+ * `tokens` is a lower bound
  * @param result The result object to check
  * @param maxTokens Maximum allowed tokens
  * @param breakRule If true, bypass the token limit
@@ -46,15 +52,15 @@ export function checkTokenLimit(
     };
   }
 
-  // Serialize the result to JSON to calculate tokens
-  const resultText = JSON.stringify(result);
-  const tokens = calculateTokens(resultText);
+  // Count the serialized result, stopping early once over the limit
+  const { tokens, exceeded, exact } = getTokenCounter().countJsonUpTo(result, maxTokens);
 
-  if (tokens > maxTokens) {
+  if (exceeded) {
+    markTokenLimited();
     return {
       allowed: false,
       tokens,
-      error: `Token limit exceeded: result contains ${tokens} tokens, limit is ${maxTokens}.
+      error: `Token limit exceeded: result contains ${exact ? "" : "more than "}${tokens} tokens, limit is ${maxTokens}.
 
 Suggestions:
 1. Reduce the size/limit parameters in your query
@@ -67,6 +73,7 @@ Note: Frequent use of break_token_rule may cause context overflow and degraded A
     };
   }
 
+  recordResultTokens(tokens);
   return {
     allowed: true,
     tokens,
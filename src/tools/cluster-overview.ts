@@ -0,0 +1,111 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import {
+  analyzeCluster,
+  formatMinimal,
+  formatCompact,
+} from "../cluster-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+export function registerClusterOverview(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  server.tool(
+    "cluster_overview",
+    "Get a short cluster health report: status, node counts by role, unassigned shard reasons, pending tasks and JVM/disk headline numbers",
+    {
+      summary_level: z
+        .enum(["minimal", "compact", "full"])
+        .optional()
+        .default("compact")
+        .describe("Output detail level: minimal (headline numbers only), compact (report with roles, shard reasons and busiest nodes, default), full (report plus raw API responses)"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ summary_level, cluster, break_token_rule }) => {
+      try {
+        const { esClient } = await clusters.get(cluster, "cluster_overview");
+
+        // Fetch health, stats, pending tasks, node stats and unassigned shards in parallel
+        const [health, stats, pendingTasks, nodeStats, shards] = await Promise.all([
+          esClient.cluster.health(),
+          esClient.cluster.stats(),
+          esClient.cluster.pendingTasks(),
+          esClient.nodes.stats({ metric: ["jvm", "fs"] }),
+          esClient.cat.shards({
+            format: "json",
+            h: "index,shard,prirep,state,unassigned.reason",
+          }),
+        ]);
+
+        const overview = analyzeCluster({
+          health,
+          stats,
+          pendingTasks,
+          nodeStats,
+          unassignedShards: Array.isArray(shards) ? shards : [],
+        });
+
+        let resultText = summary_level === "minimal"
+          ? formatMinimal(overview)
+          : formatCompact(overview);
+
+        if (summary_level === "full") {
+          resultText += `\n${'='.repeat(60)}\n`;
+          resultText += `Raw Responses:\n\n`;
+          resultText += `_cluster/health:\n${JSON.stringify(health, null, 2)}\n\n`;
+          resultText += `_cluster/stats:\n${JSON.stringify(stats, null, 2)}\n\n`;
+          resultText += `_cluster/pending_tasks:\n${JSON.stringify(pendingTasks, null, 2)}\n\n`;
+          resultText += `_nodes/stats/jvm,fs:\n${JSON.stringify(nodeStats, null, 2)}\n`;
+        } else if (summary_level === "compact" && overview.shards.unassigned > 0) {
+          resultText += `\n💡 Use get_shards with analysis_mode: "problems" for per-index shard details\n`;
+        }
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const hint = `💡 Use summary_level: "compact" or "minimal" for a shorter report\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "cluster_overview");
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to get cluster overview: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -0,0 +1,37 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { continueResponse } from "../response-shaper.js";
+
+export function registerContinueResult(
+  server: McpServer,
+  maxTokenCall: number
+) {
+  server.tool(
+    "continue_result",
+    "Fetch the next part of a result that another tool shaped to fit the token limit",
+    {
+      continuation: z
+        .string()
+        .trim()
+        .min(1, "Continuation handle is required")
+        .describe("Continuation handle returned in a shaped tool result"),
+    },
+    async ({ continuation }) => {
+      const shaped = continueResponse(continuation, maxTokenCall);
+
+      if (!shaped) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: Continuation ${continuation} not found or expired. Rerun the original tool call.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      return { content: shaped.content };
+    }
+  );
+}
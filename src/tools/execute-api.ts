@@ -1,17 +1,23 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client } from "@elastic/elasticsearch";
 import { checkTokenLimit } from "../token-limiter.js";
+import { shapeResponse, shapeText, splitJsonResponse } from "../response-shaper.js";
+import type { ApiPolicy } from "../api-policy.js";
+import { isBulkPath, summarizeBulkResponse, formatBulkSummary } from "../bulk-analyzer.js";
+import { projectJson, toFilterPath } from "../json-projection.js";
+import { isCatPath, isTabular, sortCatRows, formatTable, formatCsv } from "../cat-formatter.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
 
 export function registerExecuteApi(
   server: McpServer,
-  esClient: Client,
-  maxTokenCall: number
+  clusters: ClusterRegistry,
+  maxTokenCall: number,
+  apiPolicy: ApiPolicy
 ) {
   // Tool 4: Execute any Elasticsearch API
   server.tool(
     "execute_es_api",
-    "Execute any Elasticsearch API endpoint directly",
+    "Execute any Elasticsearch API endpoint directly. Requests are classified as read, write or admin and checked against the server's API policy",
     {
       method: z
         .enum(["GET", "POST", "PUT", "DELETE", "HEAD"])
@@ -26,41 +32,192 @@ export function registerExecuteApi(
         .optional()
         .describe("Optional URL parameters for the request"),
       body: z
-        .record(z.any())
+        .union([z.record(z.any()), z.array(z.record(z.any()))])
+        .optional()
+        .describe("Optional request body as a JavaScript object. An array of objects is sent as NDJSON, one object per line"),
+      ndjson_lines: z
+        .array(z.record(z.any()))
+        .optional()
+        .describe("NDJSON request body for _bulk, _msearch, _msearch/template and ML _data endpoints: one object per line (e.g. [{\"index\":{\"_index\":\"logs\"}}, {\"message\":\"hello\"}])"),
+      bulk_summary: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("For _bulk requests, summarize per-item results and group errors by type and index instead of returning every item (default: true)"),
+      select: z
+        .union([z.string(), z.array(z.string())])
         .optional()
-        .describe("Optional request body as a JavaScript object"),
+        .describe("Return only these parts of the response (e.g. 'nodes.*.jvm.mem.heap_used_percent', '$.hits.hits[*]._source.title', '**.status', 'hits.hits[0]._id'). Sent to Elasticsearch as filter_path and applied again to the parsed response"),
+      format: z
+        .enum(["table", "csv", "json"])
+        .optional()
+        .describe("Output format for _cat endpoints and other list responses: table (aligned columns, default for _cat), csv, or json"),
+      columns: z
+        .array(z.string())
+        .optional()
+        .describe("_cat only: columns to return, sent as the `h` parameter (e.g. ['index', 'docs.count', 'store.size'])"),
+      sort: z
+        .array(z.string())
+        .optional()
+        .describe("_cat only: sort columns, sent as the `s` parameter (e.g. ['store.size:desc', 'index'])"),
       headers: z
         .record(z.string())
         .optional()
         .describe("Optional HTTP headers for the request"),
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
         .default(false)
         .describe("Set to true to bypass token limits in critical situations. Use sparingly to avoid context overflow."),
     },
-    async ({ method, path, params, body, headers, break_token_rule }) => {
+    async ({ method, path, params, body, ndjson_lines, bulk_summary, select, format, columns, sort, headers, cluster, break_token_rule }) => {
+      // Enforce read-only mode, allow/deny lists and the destructive-operation guard
+      const decision = apiPolicy.evaluate(method, path, body);
+      if (!decision.allowed) {
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Request rejected by API policy (${decision.category} request): ${decision.explanation}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+
       try {
+        const { esClient, capabilityManager } = await clusters.get(cluster, "execute_es_api");
+
         // Sanitize the path (remove leading slash if present)
         const sanitizedPath = path.startsWith('/') ? path.substring(1) : path;
         
-        // Ensure Content-Type is set correctly
-        let customHeaders = headers || {};
-        if (body && !customHeaders['Content-Type']) {
-          customHeaders['Content-Type'] = 'application/json';
+        // NDJSON bodies: one JSON object per line
+        const lines = ndjson_lines || (Array.isArray(body) ? body : undefined);
+
+        // Let Elasticsearch drop unselected fields unless the caller set filter_path explicitly
+        const selectors = select ? (Array.isArray(select) ? select : [select]) : [];
+        const querystring: Record<string, any> = { ...(params || {}) };
+        if (selectors.length > 0 && querystring.filter_path === undefined) {
+          const filterPath = toFilterPath(selectors);
+          if (filterPath) {
+            querystring.filter_path = filterPath;
+          }
         }
-        
-        // Prepare the request options
-        const options: any = {
+
+        // _cat endpoints: fetch rows as JSON and render them ourselves, unless the caller chose a format
+        const isCat = isCatPath(sanitizedPath);
+        const outputFormat = format || (isCat ? "table" : "json");
+        let clientSort: string[] | undefined;
+        if (isCat) {
+          if (querystring.format === undefined) {
+            querystring.format = "json";
+          }
+          if (columns && columns.length > 0 && querystring.h === undefined) {
+            querystring.h = columns.join(",");
+          }
+          if (sort && sort.length > 0 && querystring.s === undefined) {
+            if (capabilityManager.supportsCatSort()) {
+              querystring.s = sort.join(",");
+            } else {
+              clientSort = sort;
+            }
+          }
+        }
+
+        // Prepare the request; as bulkBody, NDJSON is serialized and sent with the NDJSON content type
+        const requestParams: any = {
           method,
           path: sanitizedPath,
-          querystring: params || {},
-          body: body || undefined,
-          headers: customHeaders
+          querystring,
+          ...(lines ? { bulkBody: lines } : body && { body }),
         };
 
-        // Execute the request
-        const response = await esClient.transport.request(options);
+        // Execute the request; the transport only reads headers from the request options
+        let response: any = await esClient.transport.request(requestParams, headers ? { headers } : undefined);
+
+        // Project the parsed response; text responses (e.g. _cat without format=json) are returned as-is
+        if (selectors.length > 0 && response !== null && typeof response === 'object') {
+          const projected = projectJson(response, selectors);
+          if (projected === undefined) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Successfully executed ${method} request to ${path}, but select matched nothing: ${selectors.join(', ')}`
+                }
+              ]
+            };
+          }
+          response = projected;
+        }
+
+        // Plain-text responses (e.g. _cat with format=txt) are returned as they are, not as a quoted string
+        if (typeof response === 'string') {
+          const textContent = {
+            content: [
+              {
+                type: "text" as const,
+                text: `Successfully executed ${method} request to ${path}`
+              },
+              {
+                type: "text" as const,
+                text: response
+              }
+            ]
+          };
+          const textCheck = checkTokenLimit(textContent, maxTokenCall, break_token_rule);
+          if (!textCheck.allowed) {
+            const shaped = shapeText(
+              `Successfully executed ${method} request to ${path}\n\n${response}`,
+              maxTokenCall,
+              break_token_rule,
+              "execute_es_api",
+              textCheck.tokens
+            );
+            return { content: shaped.content };
+          }
+          return textContent;
+        }
+
+        // Render row lists as a table or CSV
+        if (outputFormat !== "json" && isTabular(response)) {
+          const rows = clientSort ? sortCatRows(response, clientSort) : response;
+          const rendered = outputFormat === "csv" ? formatCsv(rows) : formatTable(rows);
+          const shaped = shapeResponse(
+            {
+              header: `Successfully executed ${method} request to ${path} (${rows.length} rows)\n\n${rendered.header}`,
+              items: rendered.rows,
+              itemLabel: "rows",
+            },
+            maxTokenCall,
+            break_token_rule,
+            "execute_es_api"
+          );
+          return { content: shaped.content };
+        }
+
+        // Summarize _bulk item results instead of returning thousands of entries
+        if (bulk_summary && isBulkPath(sanitizedPath) && Array.isArray(response?.items)) {
+          const summary = summarizeBulkResponse(response);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Successfully executed ${method} request to ${path}`
+              },
+              {
+                type: "text" as const,
+                text: formatBulkSummary(summary)
+              }
+            ],
+            ...(summary.failed > 0 && summary.succeeded === 0 && { isError: true })
+          };
+        }
 
         const resultContent = {
           content: [
@@ -75,18 +232,22 @@ export function registerExecuteApi(
           ]
         };
 
-        // Check token limit
+        // Check token limit, keeping as many hits/entries as fit when exceeded
         const tokenCheck = checkTokenLimit(resultContent, maxTokenCall, break_token_rule);
         if (!tokenCheck.allowed) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: tokenCheck.error || "Token limit exceeded",
-              },
-            ],
-            isError: true,
-          };
+          const { header, items, itemLabel } = splitJsonResponse(response);
+          const shaped = shapeResponse(
+            {
+              header: `Successfully executed ${method} request to ${path}` + (header ? `\n\n${header}` : ""),
+              items,
+              itemLabel,
+            },
+            maxTokenCall,
+            break_token_rule,
+            "execute_es_api",
+            tokenCheck.tokens
+          );
+          return { content: shaped.content };
         }
 
         return resultContent;
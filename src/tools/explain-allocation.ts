@@ -0,0 +1,185 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Client } from "@elastic/elasticsearch";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import {
+  analyzeAllocationExplanation,
+  selectAllocationTargets,
+  formatAllocationExplanations,
+  type AllocationTarget,
+  type ShardAllocationExplanation,
+} from "../allocation-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+/**
+ * Call _cluster/allocation/explain for each target, one at a time so a large
+ * backlog of unassigned shards does not flood the master node
+ */
+export async function explainAllocations(
+  esClient: Client,
+  targets: AllocationTarget[]
+): Promise<ShardAllocationExplanation[]> {
+  const explanations: ShardAllocationExplanation[] = [];
+
+  for (const target of targets) {
+    try {
+      const request: any = {
+        index: target.index,
+        shard: target.shard,
+        primary: target.primary,
+      };
+      // Moving shards are explained from the node that holds them
+      if (target.state !== "UNASSIGNED" && target.node) {
+        request.current_node = target.node.split(" ")[0];
+      }
+
+      const response = await esClient.cluster.allocationExplain(request);
+      explanations.push(analyzeAllocationExplanation(target, response));
+    } catch (error) {
+      explanations.push({
+        target,
+        current_state: target.state.toLowerCase(),
+        node_count: 0,
+        groups: [],
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return explanations;
+}
+
+export function registerExplainAllocation(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  server.tool(
+    "explain_allocation",
+    "Explain why shards are unassigned or stuck: calls cluster allocation explain per shard, groups the node deciders' reasons (disk watermark, awareness, filters, max retries, ...) and suggests fixes",
+    {
+      index: z
+        .string()
+        .optional()
+        .describe("Index or pattern to check (e.g., 'logs-*'). Without 'shard', every problem shard in it is explained"),
+
+      shard: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Shard number to explain (requires a concrete 'index')"),
+
+      primary: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("With 'shard': explain the primary copy instead of a replica"),
+
+      include_moving: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Also explain initializing and relocating shards, not only unassigned ones (default: true)"),
+
+      max_shards: z
+        .number()
+        .int()
+        .min(1)
+        .max(50)
+        .optional()
+        .default(10)
+        .describe("Maximum number of shards to explain (default: 10)"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ index, shard, primary, include_moving, max_shards, cluster, break_token_rule }) => {
+      try {
+        const { esClient } = await clusters.get(cluster, "explain_allocation");
+
+        let targets: AllocationTarget[];
+
+        if (shard !== undefined) {
+          if (!index || index.includes("*") || index.includes(",")) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Error: 'shard' requires a single concrete index name",
+                },
+              ],
+            };
+          }
+          targets = [{ index, shard, primary: primary ?? false, state: "UNASSIGNED" }];
+        } else {
+          const params: any = {
+            format: "json",
+            h: "index,shard,prirep,state,node",
+          };
+          if (index) {
+            params.index = index;
+          }
+          const response = await esClient.cat.shards(params);
+          const shards = Array.isArray(response) ? response : [];
+          targets = selectAllocationTargets(shards as any, max_shards || 10, include_moving);
+
+          if (targets.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `✓ No unassigned${include_moving ? ", initializing or relocating" : ""} shards${index ? ` for pattern: ${index}` : ""}`,
+                },
+              ],
+            };
+          }
+        }
+
+        const explanations = await explainAllocations(esClient, targets);
+        const resultText = formatAllocationExplanations(explanations);
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const hint = `💡 Lower 'max_shards' or narrow 'index' for a shorter report\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "explain_allocation");
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to explain shard allocation: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
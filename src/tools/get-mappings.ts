@@ -1,7 +1,7 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client } from "@elastic/elasticsearch";
 import { checkTokenLimit, calculateTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
 import {
   flattenMapping,
   calculateMappingStats,
@@ -10,12 +10,14 @@ import {
   filterFields,
   compareMappings,
   formatComparison,
+  getTypeMappings,
   type MappingSummary,
 } from "../mapping-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
 
 export function registerGetMappings(
   server: McpServer,
-  esClient: Client,
+  clusters: ClusterRegistry,
   maxTokenCall: number
 ) {
   server.tool(
@@ -60,6 +62,11 @@ export function registerGetMappings(
         .optional()
         .describe("Enable multi-index comparison mode (auto-enabled when index pattern matches multiple)"),
 
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
@@ -74,9 +81,12 @@ export function registerGetMappings(
       field_capability,
       show_capabilities,
       compare_mode,
+      cluster,
       break_token_rule,
     }) => {
       try {
+        const { esClient, capabilityManager } = await clusters.get(cluster, "get_mappings");
+
         // Fetch mappings
         const mappingResponse = await esClient.indices.getMapping({
           index,
@@ -101,35 +111,40 @@ export function registerGetMappings(
         let totalFieldsBeforeFilter = 0;
         let totalFieldsAfterFilter = 0;
 
+        // ES 5.x/6.x keep properties under a mapping type; one summary per type
+        const normalizedMappings = capabilityManager.normalizeMappings(mappingResponse);
+
         for (const indexName of indexNames) {
-          const indexMapping = mappingResponse[indexName];
-          const properties = indexMapping?.mappings?.properties || {};
+          for (const { type, mappings } of getTypeMappings(normalizedMappings[indexName])) {
+            const properties = mappings?.properties || {};
 
-          // Flatten mapping
-          const { fields, maxDepth } = flattenMapping(properties);
-          totalFieldsBeforeFilter += fields.length;
+            // Flatten mapping
+            const { fields, maxDepth } = flattenMapping(properties);
+            totalFieldsBeforeFilter += fields.length;
 
-          // Apply filters if specified
-          let filteredFields = fields;
+            // Apply filters if specified
+            let filteredFields = fields;
 
-          if (hasFilters) {
-            filteredFields = filterFields(fields, {
-              pattern: field_pattern,
-              type: field_type,
-              capability: field_capability,
-            });
-          }
+            if (hasFilters) {
+              filteredFields = filterFields(fields, {
+                pattern: field_pattern,
+                type: field_type,
+                capability: field_capability,
+              });
+            }
 
-          totalFieldsAfterFilter += filteredFields.length;
+            totalFieldsAfterFilter += filteredFields.length;
 
-          // Calculate stats
-          const stats = calculateMappingStats(filteredFields, maxDepth);
+            // Calculate stats
+            const stats = calculateMappingStats(filteredFields, maxDepth);
 
-          summaries.push({
-            index: indexName,
-            stats,
-            fields: filteredFields,
-          });
+            summaries.push({
+              index: indexName,
+              type,
+              stats,
+              fields: filteredFields,
+            });
+          }
         }
 
         // Determine output mode
@@ -171,11 +186,20 @@ export function registerGetMappings(
               null,
               2
             );
-          } else if (summary_level === "compact") {
-            resultText = formatCompact(summary);
           } else {
-            // minimal (default)
-            resultText = formatMinimal(summary);
+            // Multi-type indices (ES 5.x/6.x): breakdown per type, then how the types differ
+            for (const typeSummary of summaries) {
+              resultText += summary_level === "compact"
+                ? formatCompact(typeSummary)
+                : formatMinimal(typeSummary);
+              if (summaries.length > 1) {
+                resultText += '\n';
+              }
+            }
+
+            if (summaries.length > 1) {
+              resultText += formatComparison(compareMappings(summaries));
+            }
           }
 
           // Add filter info if filters were applied
@@ -221,35 +245,18 @@ export function registerGetMappings(
           ],
         };
 
-        // Check token limit
+        // Check token limit, keeping as many field lines as fit when exceeded
         const tokenCheck = checkTokenLimit(result, maxTokenCall, break_token_rule);
         if (!tokenCheck.allowed) {
-          // Suggest using more aggressive filtering
-          let suggestion = tokenCheck.error!;
-          suggestion += `\n\n当前配置:\n`;
-          suggestion += `  - summary_level: ${summary_level}\n`;
-          suggestion += `  - 索引数量: ${indexNames.length}\n`;
-          
+          let hint = `当前配置: summary_level: ${summary_level}, 索引数量: ${indexNames.length}\n`;
           if (!hasFilters) {
-            suggestion += `\n建议:\n`;
-            suggestion += `  1. 使用 field_pattern 过滤特定字段 (如 "user.*")\n`;
-            suggestion += `  2. 使用 field_type 过滤特定类型 (如 "keyword")\n`;
-            suggestion += `  3. 使用更具体的索引名而非通配符\n`;
+            hint += `建议: 使用 field_pattern (如 "user.*") 或 field_type (如 "keyword") 过滤字段, 或使用更具体的索引名\n`;
           } else {
-            suggestion += `\n已使用过滤但仍超限，建议:\n`;
-            suggestion += `  1. 使用更严格的过滤条件\n`;
-            suggestion += `  2. 减少匹配的索引数量\n`;
+            hint += `已使用过滤但仍超限, 建议使用更严格的过滤条件或减少匹配的索引数量\n`;
           }
-          
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: suggestion,
-              },
-            ],
-            isError: true,
-          };
+
+          const shaped = shapeText(hint + "\n" + resultText, maxTokenCall, break_token_rule, "get_mappings");
+          return { content: shaped.content };
         }
 
         return result;
@@ -1,17 +1,21 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client } from "@elastic/elasticsearch";
 import { calculateTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
 import {
   analyzeShardHealth,
   formatShardSummary,
   formatShardProblems,
   generateShardRecommendations
 } from "../shard-analyzer.js";
+import { selectAllocationTargets, formatAllocationExplanations } from "../allocation-analyzer.js";
+import { explainAllocations } from "./explain-allocation.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+import { recordResultTokens } from "../metrics.js";
 
 export function registerGetShards(
   server: McpServer,
-  esClient: Client,
+  clusters: ClusterRegistry,
   maxTokenCall: number
 ) {
   // Tool 5: Get shard information with health analysis
@@ -48,14 +52,27 @@ export function registerGetShards(
         .default(true)
         .describe("Show optimization recommendations (default: true)"),
       
+      explain_allocation: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("In problems mode, explain why unassigned or stuck shards cannot be allocated, with suggested fixes (up to 5 shards)"),
+      
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
         .default(false)
         .describe("Set to true to bypass token limits in critical situations"),
     },
-    async ({ index, analysis_mode, size_threshold, docs_threshold, show_recommendations, break_token_rule }) => {
+    async ({ index, analysis_mode, size_threshold, docs_threshold, show_recommendations, explain_allocation, cluster, break_token_rule }) => {
       try {
+        const { esClient } = await clusters.get(cluster, "get_shards");
+
         // Fetch shard data
         const params: any = { 
           format: "json",
@@ -78,17 +95,30 @@ export function registerGetShards(
         );
 
         let resultText = '';
-        const originalDataTokens = calculateTokens(JSON.stringify(response, null, 2));
+        // Serialize and count the raw data once; full mode reuses both
+        const rawData = JSON.stringify(response, null, 2);
+        const originalDataTokens = calculateTokens(rawData);
+        let rawDataIncluded = false;
 
         // Generate output based on mode
         if (analysis_mode === "full") {
           // Full mode: return all shards (may be huge)
           resultText = `Shard information${index ? ` for pattern: ${index}` : ' (all indices)'}\n\n`;
-          resultText += JSON.stringify(response, null, 2);
+          resultText += rawData;
+          rawDataIncluded = true;
           
         } else if (analysis_mode === "problems") {
           // Problems mode: show detailed problems
           resultText = formatShardProblems(metrics);
+
+          // Inline allocation explanations for unassigned and stuck shards
+          if (explain_allocation) {
+            const targets = selectAllocationTargets(shardData as any, 5);
+            if (targets.length > 0) {
+              const explanations = await explainAllocations(esClient, targets);
+              resultText += `\n${formatAllocationExplanations(explanations)}\n`;
+            }
+          }
           
           if (show_recommendations) {
             resultText += generateShardRecommendations(metrics);
@@ -147,7 +177,10 @@ export function registerGetShards(
         }
 
         // Calculate optimized tokens
-        const optimizedTokens = calculateTokens(resultText);
+        const optimizedTokens = rawDataIncluded
+          ? calculateTokens(resultText.slice(0, resultText.length - rawData.length)) + originalDataTokens
+          : calculateTokens(resultText);
+        recordResultTokens(optimizedTokens);
         
         // Add token statistics
         resultText += `\n${'='.repeat(60)}\n`;
@@ -164,23 +197,11 @@ export function registerGetShards(
         
         resultText += `   Max allowed per call:    ${maxTokenCall.toLocaleString()} tokens\n`;
 
-        // Check token limit
+        // Check token limit, keeping as many lines as fit when exceeded
         if (optimizedTokens > maxTokenCall && !break_token_rule) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: `⚠️  Analysis result exceeds token limit (${optimizedTokens.toLocaleString()} > ${maxTokenCall.toLocaleString()}).\n\n` +
-                     `Suggestions:\n` +
-                     `1. Use 'index' parameter to filter specific indices\n` +
-                     `2. Use 'analysis_mode: summary' for minimal output\n` +
-                     `3. Set 'break_token_rule: true' to force output (not recommended)\n\n` +
-                     `Current mode: ${analysis_mode}\n` +
-                     `Filtered: ${index ? `Yes (${index})` : 'No (all indices)'}`,
-              },
-            ],
-            isError: true,
-          };
+          const hint = `💡 Use 'index' to filter specific indices or 'analysis_mode: summary' for minimal output\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "get_shards");
+          return { content: shaped.content };
         }
 
         return {
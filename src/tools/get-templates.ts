@@ -0,0 +1,189 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import {
+  flattenMapping,
+  calculateMappingStats,
+  formatMinimal,
+  formatCompact,
+} from "../mapping-analyzer.js";
+import {
+  normalizeLegacyTemplates,
+  normalizeIndexTemplates,
+  normalizeComponentTemplates,
+  matchesIndexPattern,
+  resolveTemplates,
+  applySimulation,
+  formatTemplateList,
+  formatResolution,
+  type TemplateSource,
+} from "../template-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+export function registerGetTemplates(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  server.tool(
+    "get_templates",
+    "Explore index templates, component templates and legacy templates: list them, or show which ones apply to an index or data stream name in priority order and how their settings, mappings and aliases merge",
+    {
+      name: z
+        .string()
+        .optional()
+        .describe("Index or data stream name to resolve templates for (e.g., 'logs-app-2024.06.01'). Without it, templates are listed"),
+
+      template: z
+        .string()
+        .optional()
+        .describe("Filter the template list by template name (supports wildcards, e.g., 'logs*')"),
+
+      summary_level: z
+        .enum(["minimal", "compact", "full"])
+        .optional()
+        .default("minimal")
+        .describe("Mapping detail level when resolving a name: minimal (flat list, default), compact (tree structure), full (raw merged JSON)"),
+
+      simulate: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Use _index_template/_simulate_index for the merged result where supported (ES 7.9+)"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ name, template, summary_level, simulate, cluster, break_token_rule }) => {
+      try {
+        const { esClient, capabilityManager } = await clusters.get(cluster, "get_templates");
+
+        const composableSupported = capabilityManager.supportsComposableTemplates();
+
+        const [legacyResponse, indexTemplateResponse, componentResponse] = await Promise.all([
+          esClient.indices.getTemplate(),
+          composableSupported ? esClient.indices.getIndexTemplate() : Promise.resolve(null),
+          composableSupported ? esClient.cluster.getComponentTemplate() : Promise.resolve(null),
+        ]);
+
+        const legacy = normalizeLegacyTemplates(legacyResponse);
+        const composable = normalizeIndexTemplates(indexTemplateResponse);
+        const components = normalizeComponentTemplates(componentResponse);
+
+        let resultText = "";
+
+        if (!name) {
+          // List mode
+          let templates: TemplateSource[] = [...composable, ...components.values(), ...legacy];
+          if (template) {
+            templates = templates.filter((t) => matchesIndexPattern(template, t.name));
+          }
+
+          if (templates.length === 0) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `No templates found${template ? ` matching: ${template}` : ""}`,
+                },
+              ],
+            };
+          }
+
+          resultText = formatTemplateList(templates);
+          resultText += `\n💡 Pass 'name' with an index or data stream name to see which templates apply and how they merge\n`;
+        } else {
+          // Resolve mode
+          let resolution = resolveTemplates(name, composable, components, legacy);
+
+          if (simulate && resolution.winner && capabilityManager.supportsSimulateIndexTemplate()) {
+            try {
+              const simulation = await esClient.indices.simulateIndexTemplate({ name });
+              resolution = applySimulation(resolution, simulation);
+            } catch (error) {
+              console.error(
+                `Template simulation failed, using client-side merge: ${
+                  error instanceof Error ? error.message : String(error)
+                }`
+              );
+            }
+          }
+
+          resultText = formatResolution(resolution);
+
+          if (resolution.layers.length > 0) {
+            const merged = resolution.merged;
+
+            if (summary_level === "full") {
+              resultText += `\nMerged template:\n`;
+              resultText += JSON.stringify(
+                {
+                  settings: merged.settings,
+                  mappings: { ...merged.mapping_extras, properties: merged.properties },
+                  aliases: merged.aliases,
+                },
+                null,
+                2
+              );
+              resultText += `\n`;
+            } else {
+              const { fields, maxDepth } = flattenMapping(merged.properties);
+              const summary = {
+                index: `${name} (merged templates)`,
+                stats: calculateMappingStats(fields, maxDepth),
+                fields,
+              };
+              resultText += `\n`;
+              resultText += summary_level === "compact" ? formatCompact(summary) : formatMinimal(summary);
+            }
+          }
+        }
+
+        if (!composableSupported) {
+          resultText += `\nℹ️  Index and component templates require ES 7.8+; only legacy templates are shown\n`;
+        }
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const hint = `💡 Use 'template' to filter the list or 'summary_level: minimal' for a shorter mapping view\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "get_templates");
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to get templates: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
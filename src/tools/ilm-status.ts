@@ -0,0 +1,166 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import {
+  analyzeIlmExplain,
+  formatIlmSummary,
+  formatIlmProblems,
+} from "../ilm-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+export function registerIlmStatus(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  // OpenSearch manages lifecycles with ISM; its states are reported as phases
+  const defaultIsm = clusters.getDefault().capabilityManager.supportsISM();
+  const toolName = defaultIsm ? "ism_status" : "ilm_status";
+
+  server.tool(
+    toolName,
+    defaultIsm
+      ? "Inspect OpenSearch index state management (ISM): group indices by policy, state and action, find indices with failed actions or stuck on a step, and show the policy definition next to them"
+      : "Inspect index lifecycle management: group indices by policy, phase and action, find indices in ERROR or stuck on a step, and show the policy definition next to them",
+    {
+      index: z
+        .string()
+        .optional()
+        .default("*")
+        .describe("Index pattern to explain (e.g., 'logs-*', '.ds-metrics-*'). Default: all indices"),
+
+      stuck_after_hours: z
+        .number()
+        .min(0)
+        .optional()
+        .default(24)
+        .describe("Flag indices waiting longer than this on one step (default: 24). Rollover waits are measured after the policy's max_age"),
+
+      problems_only: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Skip the policy/phase/action overview and only report indices in ERROR or stuck"),
+
+      show_policies: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Show the definition of policies used by problem indices (default: true)"),
+
+      max_indices: z
+        .number()
+        .int()
+        .min(1)
+        .optional()
+        .default(20)
+        .describe("Maximum problem indices to list per category (default: 20)"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ index, stuck_after_hours, problems_only, show_policies, max_indices, cluster, break_token_rule }) => {
+      try {
+        const { esClient, capabilityManager, privileges } = await clusters.get(cluster, toolName);
+        const ism = capabilityManager.supportsISM();
+        // Without read_ilm the explain API still works, but policy definitions cannot be read
+        const readPolicies = !privileges.tools.ilm_status?.missingOptionalCluster.includes("read_ilm");
+
+        let explain: any;
+        let policies: Record<string, any>;
+        if (ism) {
+          const [ismExplain, ismPolicies] = await Promise.all([
+            esClient.transport.request({
+              method: "GET",
+              path: `/_plugins/_ism/explain/${encodeURIComponent(index || "*")}`,
+            }),
+            esClient.transport.request({
+              method: "GET",
+              path: "/_plugins/_ism/policies",
+              querystring: { size: 1000 },
+            }),
+          ]);
+          ({ explain, policies } = capabilityManager.normalizeIsmResponses(ismExplain, ismPolicies));
+        } else {
+          const [ilmExplain, ilmPolicies] = await Promise.all([
+            esClient.ilm.explainLifecycle({ index: index || "*" }),
+            readPolicies ? esClient.ilm.getLifecycle() : Promise.resolve({}),
+          ]);
+          explain = ilmExplain;
+          policies = (ilmPolicies || {}) as Record<string, any>;
+        }
+
+        const summary = analyzeIlmExplain(
+          explain,
+          policies,
+          (stuck_after_hours ?? 24) * 60 * 60 * 1000,
+          Date.now(),
+          ism ? "ISM" : "ILM"
+        );
+
+        if (summary.total === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No indices found for pattern: ${index}`,
+              },
+            ],
+          };
+        }
+
+        let resultText = problems_only ? "" : formatIlmSummary(summary);
+        resultText += formatIlmProblems(summary, policies, max_indices, show_policies && readPolicies);
+
+        if (!readPolicies) {
+          resultText += `\n💡 Policy definitions unavailable (missing cluster privilege: read_ilm); rollover waits are measured from the step start\n`;
+        }
+
+        if (!problems_only && summary.unmanaged > 0 && summary.managed === 0) {
+          resultText += `\n💡 None of the matched indices is managed by ${summary.lifecycle}\n`;
+        }
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const hint = `💡 Narrow 'index', lower 'max_indices' or use 'problems_only: true' for shorter output\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, toolName);
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to get ${defaultIsm ? "ISM" : "ILM"} status: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
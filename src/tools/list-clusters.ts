@@ -0,0 +1,121 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import { formatVersionInfo } from "../version-detector.js";
+import { toolUnavailableReason, type ClusterConnection, type ClusterRegistry } from "../cluster-registry.js";
+import { TOOL_PRIVILEGES } from "../privilege-checker.js";
+
+/**
+ * Format one connected cluster: version, license, security and the tools it cannot run
+ */
+function formatConnection(connection: ClusterConnection): string {
+  const { capabilityManager, versionInfo } = connection;
+  let text = `  ${formatVersionInfo(versionInfo)}\n`;
+
+  const probe = capabilityManager.getProbeResult();
+  if (probe?.license) {
+    text += `  License:  ${probe.license.type} (${probe.license.status})\n`;
+  }
+  if (probe?.security) {
+    text += probe.security.enabled
+      ? `  Security: enabled${probe.security.user ? ` (user ${probe.security.user})` : ""}\n`
+      : `  Security: disabled\n`;
+  }
+
+  const unavailable = Object.keys(TOOL_PRIVILEGES)
+    .map((tool) => {
+      const reason = toolUnavailableReason(connection, tool);
+      const name = tool === "ilm_status" && capabilityManager.isOpenSearch() ? "ism_status" : tool;
+      return reason ? `${name} (${reason})` : null;
+    })
+    .filter((item): item is string => item !== null);
+
+  text += unavailable.length > 0
+    ? `  Unavailable tools:\n${unavailable.map((item) => `    • ${item}\n`).join("")}`
+    : `  All tools available\n`;
+
+  return text;
+}
+
+export function registerListClusters(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  server.tool(
+    "list_clusters",
+    "List the configured Elasticsearch/OpenSearch clusters with their version, license, security and the tools each one cannot run. Pass a cluster name as the 'cluster' parameter of other tools",
+    {
+      connect: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Connect to clusters not used yet to report their version and features (default: false)"),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ connect, break_token_rule }) => {
+      try {
+        const names = clusters.getNames();
+
+        // Connection failures are reported per cluster below
+        if (connect) {
+          await Promise.allSettled(names.map((name) => clusters.get(name)));
+        }
+
+        let resultText = `Clusters (${names.length} configured, default: ${clusters.getDefaultName()})\n`;
+        resultText += `${"=".repeat(50)}\n`;
+
+        for (const name of names) {
+          resultText += `\n${name}${name === clusters.getDefaultName() ? " (default)" : ""} - ${clusters.getUrl(name)}\n`;
+
+          const connection = clusters.peek(name);
+          const failure = clusters.getFailure(name);
+          if (connection) {
+            resultText += formatConnection(connection);
+          } else if (failure) {
+            resultText += `  ❌ Connection failed: ${failure}\n`;
+          } else {
+            resultText += `  Not connected yet (connects on first use, or call list_clusters with connect: true)\n`;
+          }
+        }
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const shaped = shapeText(resultText, maxTokenCall, break_token_rule, "list_clusters");
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to list clusters: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
@@ -1,7 +1,7 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client } from "@elastic/elasticsearch";
 import { checkTokenLimit, calculateTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
 import {
   generateDataStreamSummary,
   formatMinimal,
@@ -12,10 +12,11 @@ import {
   type DataStreamSummary,
   type BackingIndex,
 } from "../datastream-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
 
 export function registerListDataStreams(
   server: McpServer,
-  esClient: Client,
+  clusters: ClusterRegistry,
   maxTokenCall: number
 ) {
   server.tool(
@@ -63,6 +64,11 @@ export function registerListDataStreams(
         .default(false)
         .describe("Show aggregate comparison across all matched data streams"),
 
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
@@ -77,9 +83,12 @@ export function registerListDataStreams(
       ilm_policy,
       max_display,
       compare_mode,
+      cluster,
       break_token_rule,
     }) => {
       try {
+        const { esClient } = await clusters.get(cluster, "list_data_streams");
+
         // Fetch data streams
         const dsResponse = await esClient.indices.getDataStream({
           name: pattern || "*",
@@ -385,27 +394,10 @@ export function registerListDataStreams(
           break_token_rule
         );
         if (!tokenCheck.allowed) {
-          let suggestion = tokenCheck.error!;
-          suggestion += `\n\nCurrent configuration:\n`;
-          suggestion += `  - summary_level: ${summary_level}\n`;
-          suggestion += `  - data_streams: ${summaries.length}\n`;
-          suggestion += `  - max_display: ${max_display}\n`;
-
-          suggestion += `\nSuggestions:\n`;
-          suggestion += `  1. Use pattern filter (e.g., pattern="logs-*")\n`;
-          suggestion += `  2. Reduce max_display (e.g., max_display=10)\n`;
-          suggestion += `  3. Use health_filter to focus on problematic streams\n`;
-          suggestion += `  4. Enable compare_mode for aggregate view\n`;
-
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: suggestion,
-              },
-            ],
-            isError: true,
-          };
+          // Keep as many lines as fit and hold the rest behind a continuation
+          const hint = `💡 Use pattern, health_filter or a smaller max_display to narrow the result, or compare_mode for an aggregate view\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "list_data_streams");
+          return { content: shaped.content };
         }
 
         return result;
@@ -1,7 +1,7 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client } from "@elastic/elasticsearch";
 import { checkTokenLimit, calculateTokens } from "../token-limiter.js";
+import { shapeResponse } from "../response-shaper.js";
 import { 
   generateIndexSummary, 
   formatSummaryText,
@@ -9,10 +9,11 @@ import {
   formatMinimalSummary,
   generateSuggestions 
 } from "../index-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
 
 export function registerListIndices(
   server: McpServer,
-  esClient: Client,
+  clusters: ClusterRegistry,
   maxTokenCall: number
 ) {
   // Tool 1: List indices with smart detection and filtering
@@ -60,14 +61,21 @@ export function registerListIndices(
         .optional()
         .describe("Filter by health status: green, yellow, or red"),
       
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
         .default(false)
         .describe("Set to true to bypass token limits in critical situations"),
     },
-    async ({ pattern, summary_mode, summary_level, top_patterns, max_display, sort_by, health_filter, break_token_rule }) => {
+    async ({ pattern, summary_mode, summary_level, top_patterns, max_display, sort_by, health_filter, cluster, break_token_rule }) => {
       try {
+        const { esClient } = await clusters.get(cluster, "list_indices");
+
         const AUTO_SUMMARY_THRESHOLD = 200;
 
         // Fetch indices with optional pattern (including hidden indices)
@@ -78,13 +86,14 @@ export function registerListIndices(
           h: "index,health,status,docs.count,store.size,pri.store.size"
         });
 
+        // Column names are normalized to the dot notation for every version
         let indicesInfo = response.map((index: any) => ({
-          index: index.index || index['index'],
-          health: index.health || index['health'],
-          status: index.status || index['status'],
-          docsCount: index['docs.count'] || index.docsCount || '0',
-          storeSize: index['store.size'] || index.storeSize,
-          priStoreSize: index['pri.store.size'] || index.priStoreSize,
+          index: index.index,
+          health: index.health,
+          status: index.status,
+          docsCount: index['docs.count'],
+          storeSize: index['store.size'],
+          priStoreSize: index['pri.store.size'],
         }));
 
         // Apply health filter
@@ -238,62 +247,20 @@ export function registerListIndices(
           // Check token limit before returning detailed view
           const tokenCheck = checkTokenLimit(result, maxTokenCall, break_token_rule);
           if (!tokenCheck.allowed) {
-            // Fall back to summary mode with intelligent level selection
-            const originalFullData = JSON.stringify(indicesInfo, null, 2);
-            const originalTokens = calculateTokens(originalFullData);
-            
-            const summary = generateIndexSummary(indicesInfo);
-            let fallbackText = '';
-            let actualLevel = 'full';
-            
-            // Try different summary levels
-            const fullText = formatSummaryText(summary);
-            const fullTokens = calculateTokens(fullText);
-            
-            if (fullTokens <= maxTokenCall) {
-              fallbackText = fullText;
-              actualLevel = 'full';
-            } else {
-              const compactText = formatCompactSummary(summary, top_patterns || 20);
-              const compactTokens = calculateTokens(compactText);
-              
-              if (compactTokens <= maxTokenCall) {
-                fallbackText = compactText;
-                actualLevel = 'compact';
-              } else {
-                fallbackText = formatMinimalSummary(summary);
-                actualLevel = 'minimal';
-              }
-            }
-            
-            const optimizedTokens = calculateTokens(fallbackText);
-            const tokenSavings = originalTokens - optimizedTokens;
-            const savingsPercent = ((tokenSavings / originalTokens) * 100).toFixed(1);
-            
-            let resultMessage = `⚠️  Token limit would be exceeded with detailed view (${tokenCheck.tokens.toLocaleString()} tokens).\n` +
-                               `Auto-switched to ${actualLevel} summary mode.\n\n` +
-                               fallbackText;
-            
-            // Add token statistics
-            resultMessage += `\n${'='.repeat(60)}\n`;
-            resultMessage += `📊 Token Usage Statistics:\n`;
-            resultMessage += `   Summary Level:           ${actualLevel}\n`;
-            resultMessage += `   Original (full data):    ${originalTokens.toLocaleString()} tokens\n`;
-            resultMessage += `   Optimized (summary):     ${optimizedTokens.toLocaleString()} tokens\n`;
-            resultMessage += `   Saved:                   ${tokenSavings.toLocaleString()} tokens (${savingsPercent}% reduction)\n`;
-            resultMessage += `   Max allowed per call:    ${maxTokenCall.toLocaleString()} tokens\n`;
-            
-            resultMessage += generateSuggestions(summary, !!pattern);
-            resultMessage += `\n\n💡 Use 'pattern' to filter, or set break_token_rule: true to force detailed view`;
-            
-            return {
-              content: [
-                {
-                  type: "text" as const,
-                  text: resultMessage,
-                },
-              ],
-            };
+            // Keep as many indices as fit and hold the rest behind a continuation
+            const shaped = shapeResponse(
+              {
+                header: resultText +
+                  `\n\n⚠️  Detailed view would use ${tokenCheck.tokens.toLocaleString()} tokens.` +
+                  `\n💡 Use 'pattern' to filter, or summary_mode: true for an overview`,
+                items: detailedList.map((idx: any) => JSON.stringify(idx)),
+                itemLabel: "indices",
+              },
+              maxTokenCall,
+              break_token_rule,
+              "list_indices"
+            );
+            return { content: shaped.content };
           }
 
           return result;
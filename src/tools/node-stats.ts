@@ -0,0 +1,137 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { countResultTokens } from "../token-limiter.js";
+import { shapeText } from "../response-shaper.js";
+import {
+  analyzeNodeResources,
+  formatNodeSummary,
+  formatNodeProblems,
+  formatNodeDetails,
+  generateNodeRecommendations,
+} from "../node-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+export function registerNodeStats(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  server.tool(
+    "node_stats",
+    "Analyze node resources: heap pressure, disk use against the low/high/flood-stage watermarks, thread pool rejections and circuit breaker trips",
+    {
+      node: z
+        .string()
+        .optional()
+        .describe("Optional node filter (node name, id, attribute or role such as 'data:true'); defaults to all nodes"),
+
+      analysis_mode: z
+        .enum(["summary", "problems", "full"])
+        .optional()
+        .default("summary")
+        .describe("Analysis detail level: summary (health overview, default), problems (details for nodes with issues), full (details for every node)"),
+
+      show_recommendations: z
+        .boolean()
+        .optional()
+        .default(true)
+        .describe("Show recommendations (default: true)"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ node, analysis_mode, show_recommendations, cluster, break_token_rule }) => {
+      try {
+        const { esClient, capabilityManager } = await clusters.get(cluster, "node_stats");
+
+        const [nodeStats, allocation, settings] = await Promise.all([
+          esClient.nodes.stats({
+            ...(node && { node_id: node }),
+            metric: ["jvm", "fs", "os", "thread_pool", "breaker"],
+          }),
+          esClient.cat.allocation({ format: "json", bytes: "b" }),
+          // Defaults too, so unset watermarks come from the cluster rather than hardcoded values
+          esClient.cluster.getSettings({ flat_settings: true, include_defaults: true }),
+        ]);
+
+        const metrics = analyzeNodeResources(
+          nodeStats,
+          Array.isArray(allocation) ? allocation : [],
+          settings,
+          {
+            writeThreadPool: capabilityManager.getWriteThreadPoolName(),
+            supportsFloodStage: capabilityManager.supportsFloodStageWatermark(),
+          }
+        );
+
+        if (metrics.total_nodes === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `No nodes matched${node ? ` filter: ${node}` : ""}`,
+              },
+            ],
+          };
+        }
+
+        let resultText = formatNodeSummary(metrics);
+
+        if (analysis_mode === "problems") {
+          resultText += formatNodeProblems(metrics);
+        } else if (analysis_mode === "full") {
+          resultText += formatNodeDetails(metrics);
+        } else if (metrics.problem_nodes.heap_pressure.length > 0 ||
+                   metrics.problem_nodes.disk_watermark.length > 0 ||
+                   metrics.problem_nodes.rejections.length > 0 ||
+                   metrics.problem_nodes.breaker_trips.length > 0) {
+          resultText += `💡 Use analysis_mode: "problems" for per-node details\n`;
+        }
+
+        if (show_recommendations) {
+          resultText += generateNodeRecommendations(metrics);
+        }
+
+        // Check token limit, keeping as many lines as fit when exceeded
+        if (countResultTokens(resultText) > maxTokenCall && !break_token_rule) {
+          const hint = `💡 Use 'node' to filter nodes or 'analysis_mode: summary' for minimal output\n\n`;
+          const shaped = shapeText(hint + resultText, maxTokenCall, break_token_rule, "node_stats");
+          return { content: shaped.content };
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: resultText,
+            },
+          ],
+        };
+      } catch (error) {
+        console.error(
+          `Failed to get node stats: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
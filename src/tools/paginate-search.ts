@@ -0,0 +1,253 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Client } from "@elastic/elasticsearch";
+import { shapeResponse } from "../response-shaper.js";
+import { CursorStore, type SearchCursor } from "../cursor-store.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+/** The returned store holds the server's open cursors; close it with closeAll() when the server goes away */
+export function registerPaginateSearch(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+): CursorStore {
+  const cursorStore = new CursorStore(async (cursor) => {
+    const { esClient } = await clusters.get(cursor.cluster);
+    if (cursor.kind === "pit" && cursor.pitId) {
+      await esClient.closePointInTime({ id: cursor.pitId });
+    } else if (cursor.kind === "scroll" && cursor.scrollId) {
+      await esClient.clearScroll({ scroll_id: cursor.scrollId });
+    }
+  });
+
+  const fetchPage = async (esClient: Client, cursor: SearchCursor): Promise<any> => {
+    if (cursor.kind === "pit") {
+      const { sort, ...query } = cursor.queryBody;
+      const result: any = await esClient.search({
+        ...query,
+        size: cursor.pageSize,
+        pit: { id: cursor.pitId!, keep_alive: cursor.keepAlive },
+        // A custom sort gets an implicit _shard_doc tiebreaker on point in time searches
+        sort: sort || ["_shard_doc"],
+        ...(cursor.searchAfter && { search_after: cursor.searchAfter }),
+      } as any);
+
+      // The PIT id may change between requests
+      if (result.pit_id) {
+        cursor.pitId = result.pit_id;
+      }
+      const hits = result.hits.hits;
+      if (hits.length > 0) {
+        cursor.searchAfter = hits[hits.length - 1].sort;
+      }
+      return result;
+    }
+
+    if (!cursor.scrollId) {
+      const result: any = await esClient.search({
+        index: cursor.index,
+        ...cursor.queryBody,
+        size: cursor.pageSize,
+        scroll: cursor.keepAlive,
+      } as any);
+      cursor.scrollId = result._scroll_id;
+      return result;
+    }
+
+    const result: any = await esClient.scroll({
+      scroll_id: cursor.scrollId,
+      scroll: cursor.keepAlive,
+    });
+    if (result._scroll_id) {
+      cursor.scrollId = result._scroll_id;
+    }
+    return result;
+  };
+
+  server.tool(
+    "paginate_search",
+    "Page through large result sets with a server-held cursor (point in time + search_after on Elasticsearch 7.12+, scroll on older versions and OpenSearch). " +
+      "Start with index and queryBody, then pass the returned cursor to fetch the next page without resending the query.",
+    {
+      index: z
+        .string()
+        .trim()
+        .optional()
+        .describe("Index, pattern, alias or data stream to search (required when starting a new cursor)"),
+
+      queryBody: z
+        .record(z.any())
+        .optional()
+        .describe("Query DSL (query, sort, _source, ...) used when starting a new cursor. 'from' and 'size' are ignored"),
+
+      cursor: z
+        .string()
+        .optional()
+        .describe("Cursor token returned by a previous call; fetches the next page from the cluster it was opened on"),
+
+      page_size: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .default(100)
+        .describe("Hits per page when starting a new cursor (default: 100)"),
+
+      keep_alive: z
+        .string()
+        .regex(/^\d+(ms|s|m|h)$/, "keep_alive must be a time value such as '1m' or '30s'")
+        .optional()
+        .default("1m")
+        .describe("How long the cursor stays open between calls (default: '1m')"),
+
+      close: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true with a cursor to close it early and release cluster resources"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations. Use sparingly to avoid context overflow."),
+    },
+    async ({ index, queryBody, cursor: token, page_size, keep_alive, close, cluster, break_token_rule }) => {
+      try {
+        let cursor: SearchCursor | undefined;
+        let esClient: Client;
+
+        if (token) {
+          if (close) {
+            const closed = await cursorStore.close(token);
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: closed ? `Cursor ${token} closed` : `Cursor ${token} not found (already closed or expired)`,
+                },
+              ],
+            };
+          }
+
+          cursor = await cursorStore.get(token);
+          if (!cursor) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: `Error: Cursor ${token} not found or expired. Start a new cursor with index and queryBody.`,
+                },
+              ],
+              isError: true,
+            };
+          }
+          ({ esClient } = await clusters.get(cursor.cluster));
+        } else {
+          if (!index) {
+            return {
+              content: [
+                {
+                  type: "text" as const,
+                  text: "Error: index is required when starting a new cursor",
+                },
+              ],
+              isError: true,
+            };
+          }
+
+          // from/size are controlled by the cursor
+          const { from, size, ...query } = queryBody || {};
+
+          const connection = await clusters.get(cluster, "paginate_search");
+          esClient = connection.esClient;
+          // search_after needs the _shard_doc tiebreaker (7.12+); 7.10 and 7.11 scroll instead.
+          // OpenSearch always scrolls: its PIT API differs and has no _shard_doc tiebreaker
+          const usePointInTime =
+            connection.capabilityManager.supportsPointInTime() &&
+            connection.capabilityManager.supportsShardDocSort();
+
+          let pitId: string | undefined;
+          if (usePointInTime) {
+            const pit: any = await esClient.openPointInTime({ index, keep_alive });
+            pitId = pit.id;
+          }
+
+          cursor = await cursorStore.create({
+            kind: usePointInTime ? "pit" : "scroll",
+            cluster: connection.name,
+            index,
+            queryBody: query,
+            pageSize: page_size,
+            keepAlive: keep_alive,
+            pitId,
+            page: 0,
+            returned: 0,
+          });
+        }
+
+        const result = await fetchPage(esClient, cursor);
+        const hits: any[] = result.hits.hits;
+        // hits.total is a number before 7.0; since then it is only a lower bound ("gte") past 10,000 hits
+        const totalHits = result.hits.total;
+        const total = typeof totalHits === "number" ? totalHits : totalHits?.value ?? 0;
+        const totalLabel = totalHits?.relation === "gte" ? `${total}+` : String(total);
+
+        const start = cursor.returned;
+        cursor.page++;
+        cursor.returned += hits.length;
+        cursorStore.touch(cursor);
+
+        // Only a short page proves the end; a full last page is followed by an empty one
+        const exhausted = hits.length < cursor.pageSize;
+        if (exhausted) {
+          await cursorStore.close(cursor.token);
+        }
+
+        let header = `Page ${cursor.page}: hits ${hits.length > 0 ? `${start + 1}-${cursor.returned}` : "none"} of ${totalLabel}`;
+        header += exhausted
+          ? `\nNo more pages - cursor closed`
+          : `\nNext page: call paginate_search with cursor: "${cursor.token}" (expires after ${cursor.keepAlive} of inactivity)`;
+
+        // The cursor has already moved past this page, so a page over the token limit is
+        // shaped rather than rejected: the hits that do not fit stay behind a continuation
+        const shaped = shapeResponse(
+          {
+            header,
+            items: hits.map((hit) => `_index: ${hit._index} | _id: ${hit._id}\n${JSON.stringify(hit._source || {}, null, 2)}`),
+            itemLabel: "hits",
+            asFragments: true,
+          },
+          maxTokenCall,
+          break_token_rule,
+          "paginate_search"
+        );
+        return { content: shaped.content };
+      } catch (error) {
+        console.error(
+          `Paginated search failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }`,
+            },
+          ],
+        };
+      }
+    }
+  );
+
+  return cursorStore;
+}
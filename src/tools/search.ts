@@ -1,23 +1,26 @@
 import { z } from "zod";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import type { Client, estypes } from "@elastic/elasticsearch";
+import type { estypes } from "@elastic/elasticsearch";
 import { checkTokenLimit } from "../token-limiter.js";
+import { shapeResponse } from "../response-shaper.js";
+import { flattenMapping, getHighlightableFields, getTypeMappings } from "../mapping-analyzer.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
 
 export function registerSearch(
   server: McpServer,
-  esClient: Client,
+  clusters: ClusterRegistry,
   maxTokenCall: number
 ) {
   // Tool 3: Search an index with simplified parameters
   server.tool(
     "es_search",
-    "Perform an Elasticsearch search with the provided query DSL. Highlights are always enabled.",
+    "Perform an Elasticsearch search with the provided query DSL. Highlights are enabled by default on text fields of all matched indices.",
     {
       index: z
         .string()
         .trim()
         .min(1, "Index name is required")
-        .describe("Name of the Elasticsearch index to search"),
+        .describe("Name of the Elasticsearch index, index pattern, alias or data stream to search"),
 
       queryBody: z
         .record(z.any())
@@ -38,20 +41,46 @@ export function registerSearch(
           "Complete Elasticsearch query DSL object that can include query, size, from, sort, etc."
         ),
       
+      highlight: z
+        .union([
+          z.boolean(),
+          z.object({
+            fields: z
+              .array(z.string())
+              .optional()
+              .describe("Fields to highlight (supports wildcards, e.g. 'message' or 'user.*'). Defaults to all text fields"),
+            fragment_size: z
+              .number()
+              .int()
+              .positive()
+              .optional()
+              .describe("Size of each highlighted fragment in characters (default: 100)"),
+            number_of_fragments: z
+              .number()
+              .int()
+              .min(0)
+              .optional()
+              .describe("Maximum number of fragments per field (default: 5, 0 returns the whole field)"),
+          }),
+        ])
+        .optional()
+        .default(true)
+        .describe("Highlighting options: true (default, all text fields), false (disabled), or an object to pick fields and fragment settings. Ignored if queryBody already contains 'highlight'"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
       break_token_rule: z
         .boolean()
         .optional()
         .default(false)
         .describe("Set to true to bypass token limits in critical situations. Use sparingly to avoid context overflow."),
     },
-    async ({ index, queryBody, break_token_rule }) => {
+    async ({ index, queryBody, highlight, cluster, break_token_rule }) => {
       try {
-        // Get mappings to identify text fields for highlighting
-        const mappingResponse = await esClient.indices.getMapping({
-          index,
-        });
-
-        const indexMappings = mappingResponse[index]?.mappings || {};
+        const { esClient, capabilityManager } = await clusters.get(cluster, "es_search");
 
         const searchRequest: estypes.SearchRequest = {
           index,
@@ -59,23 +88,48 @@ export function registerSearch(
           timeout: '30s' // Set timeout for specific queries
         };
 
-        // Always do highlighting
-        if (indexMappings.properties) {
-          const textFields: Record<string, estypes.SearchHighlightField> = {};
+        // Build highlighting unless disabled or provided by the caller
+        if (highlight !== false && !queryBody.highlight) {
+          const options = typeof highlight === "object" ? highlight : {};
+          let highlightFields = options.fields || [];
+
+          if (highlightFields.length === 0) {
+            // Get mappings to identify text fields for highlighting.
+            // The response is keyed by concrete index name, so patterns, aliases
+            // and data streams are resolved by taking the union of all entries.
+            const mappingResponse = await esClient.indices.getMapping({
+              index,
+            });
+
+            // On ES 5.x/6.x the properties sit under each mapping type
+            const normalizedMappings = capabilityManager.normalizeMappings(mappingResponse);
+
+            const fieldPaths = new Set<string>();
+            for (const indexMapping of Object.values(normalizedMappings)) {
+              for (const { mappings } of getTypeMappings(indexMapping)) {
+                const { fields } = flattenMapping(mappings?.properties || {});
+                for (const path of getHighlightableFields(fields)) {
+                  fieldPaths.add(path);
+                }
+              }
+            }
+            highlightFields = Array.from(fieldPaths);
+          }
 
-          for (const [fieldName, fieldData] of Object.entries(
-            indexMappings.properties
-          )) {
-            if (fieldData.type === "text" || "dense_vector" in fieldData) {
+          if (highlightFields.length > 0) {
+            const textFields: Record<string, estypes.SearchHighlightField> = {};
+            for (const fieldName of highlightFields) {
               textFields[fieldName] = {};
             }
-          }
 
-          searchRequest.highlight = {
-            fields: textFields,
-            pre_tags: ["<em>"],
-            post_tags: ["</em>"],
-          };
+            searchRequest.highlight = {
+              fields: textFields,
+              pre_tags: ["<em>"],
+              post_tags: ["</em>"],
+              ...(options.fragment_size !== undefined && { fragment_size: options.fragment_size }),
+              ...(options.number_of_fragments !== undefined && { number_of_fragments: options.number_of_fragments }),
+            };
+          }
         }
 
         const result = await esClient.search(searchRequest);
@@ -112,9 +166,7 @@ export function registerSearch(
         const metadataFragment = {
           type: "text" as const,
           text: `Total results: ${
-            typeof result.hits.total === "number"
-              ? result.hits.total
-              : result.hits.total?.value || 0
+            (result.hits.total as estypes.SearchTotalHits | undefined)?.value ?? 0
           }, showing ${result.hits.hits.length} from position ${from}`,
         };
 
@@ -134,18 +186,22 @@ export function registerSearch(
           ],
         };
 
-        // Check token limit
+        // Check token limit, keeping as many hits as fit when exceeded
         const tokenCheck = checkTokenLimit(resultContent, maxTokenCall, break_token_rule);
         if (!tokenCheck.allowed) {
-          return {
-            content: [
-              {
-                type: "text" as const,
-                text: tokenCheck.error || "Token limit exceeded",
-              },
-            ],
-            isError: true,
-          };
+          const shaped = shapeResponse(
+            {
+              header: [metadataFragment, ...aggregationFragments].map((f) => f.text).join("\n\n"),
+              items: contentFragments.map((f) => f.text),
+              itemLabel: "hits",
+              asFragments: true,
+            },
+            maxTokenCall,
+            break_token_rule,
+            "es_search",
+            tokenCheck.tokens
+          );
+          return { content: shaped.content };
         }
 
         return resultContent;
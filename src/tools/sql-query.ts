@@ -0,0 +1,184 @@
+import { z } from "zod";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { shapeResponse } from "../response-shaper.js";
+import { formatTable, formatCsv } from "../cat-formatter.js";
+import type { ClusterRegistry } from "../cluster-registry.js";
+
+export function registerSqlQuery(
+  server: McpServer,
+  clusters: ClusterRegistry,
+  maxTokenCall: number
+) {
+  // PPL is offered when any cluster may run it; the endpoint check rejects it per cluster
+  const ppl = clusters.getNames().length > 1 || clusters.getDefault().capabilityManager.supportsPPL();
+  const languages = ppl ? ["sql", "ppl"] as const : ["sql"] as const;
+
+  server.tool(
+    "sql_query",
+    clusters.getNames().length > 1
+      ? "Run an SQL query (or a PPL query on OpenSearch clusters) and return the rows as a table"
+      : ppl
+        ? "Run an SQL or PPL query through the OpenSearch SQL plugin and return the rows as a table"
+        : "Run an Elasticsearch SQL query and return the rows as a table",
+    {
+      query: z
+        .string()
+        .trim()
+        .optional()
+        .describe("Query to run (e.g., 'SELECT host, COUNT(*) FROM logs GROUP BY host'). Not needed with 'cursor'"),
+
+      language: z
+        .enum(languages)
+        .optional()
+        .default("sql")
+        .describe(
+          ppl
+            ? "Query language: sql (default) or ppl (e.g., 'source=logs | stats count() by host')"
+            : "Query language: sql"
+        ),
+
+      fetch_size: z
+        .number()
+        .int()
+        .min(1)
+        .max(10000)
+        .optional()
+        .default(100)
+        .describe("Rows per page (default: 100). SQL only; a cursor is returned when more rows exist"),
+
+      cursor: z
+        .string()
+        .optional()
+        .describe("Cursor from a previous sql_query call to fetch the next page (pass the same cluster)"),
+
+      format: z
+        .enum(["table", "csv", "json"])
+        .optional()
+        .default("table")
+        .describe("Output format: table (default), csv, or json rows"),
+
+      cluster: z
+        .string()
+        .optional()
+        .describe(clusters.describeClusterParam()),
+
+      break_token_rule: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Set to true to bypass token limits in critical situations"),
+    },
+    async ({ query, language, fetch_size, cursor, format, cluster, break_token_rule }) => {
+      try {
+        if (!query && !cursor) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: "Error: Either 'query' or 'cursor' is required",
+              },
+            ],
+          };
+        }
+
+        const { esClient, capabilityManager } = await clusters.get(cluster, "sql_query");
+        const endpoint = capabilityManager.getSqlEndpoint(cursor ? "sql" : language);
+        if (!endpoint) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Error: ${language.toUpperCase()} is not available on this cluster`,
+              },
+            ],
+          };
+        }
+
+        const body = cursor
+          ? { cursor }
+          : { query, ...(language === "sql" && { fetch_size }) };
+
+        const response = await esClient.transport.request({
+          method: "POST",
+          path: endpoint,
+          // Elasticsearch SQL defaults to text output; the OpenSearch plugins answer in JDBC JSON
+          querystring: capabilityManager.isOpenSearch() ? {} : { format: "json" },
+          body,
+        });
+
+        const result = capabilityManager.normalizeSqlResponse(response);
+        const rows: any[][] = Array.isArray(result?.rows) ? result.rows : [];
+        // Follow-up pages of Elasticsearch SQL carry rows without column metadata
+        const columnNames: string[] = Array.isArray(result?.columns)
+          ? result.columns.map((column: any) => column.name)
+          : (rows[0] || []).map((_, i) => `column_${i + 1}`);
+
+        const records = rows.map((row) =>
+          Object.fromEntries(columnNames.map((name, i) => [name, row[i]]))
+        );
+
+        let header = `${language.toUpperCase()} returned ${records.length} rows`;
+        if (typeof result?.total === "number" && result.total > records.length) {
+          header += ` (of ${result.total})`;
+        }
+        if (result?.cursor) {
+          header += `\nNext page: call sql_query with cursor: "${result.cursor}"`;
+        }
+
+        if (records.length === 0) {
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: header,
+              },
+            ],
+          };
+        }
+
+        let items: string[];
+        if (format === "json") {
+          items = records.map((record) => JSON.stringify(record));
+        } else {
+          const rendered = format === "csv" ? formatCsv(records) : formatTable(records);
+          header += `\n\n${rendered.header}`;
+          items = rendered.rows;
+        }
+
+        const shaped = shapeResponse(
+          { header, items, itemLabel: "rows" },
+          maxTokenCall,
+          break_token_rule,
+          "sql_query"
+        );
+        return { content: shaped.content };
+      } catch (error) {
+        console.error(
+          `SQL query failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+
+        // SQL errors carry the parser message in the response body
+        let errorDetails = "";
+        if (error instanceof Error && "meta" in error && error.meta) {
+          const meta = error.meta as any;
+          if (meta.body) {
+            errorDetails = `\nError details: ${JSON.stringify(meta.body, null, 2)}`;
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: `Error: ${
+                error instanceof Error ? error.message : String(error)
+              }${errorDetails}`,
+            },
+          ],
+        };
+      }
+    }
+  );
+}
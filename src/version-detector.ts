@@ -4,6 +4,7 @@
 
 import https from 'https';
 import http from 'http';
+import { authorizationHeader, createPinnedCaAgent, type ResolvedConnection } from './connection-auth.js';
 
 export interface ESVersionInfo {
   major: number;
@@ -37,19 +38,15 @@ export interface ESClusterInfo {
  * This avoids the chicken-egg problem of needing a client to detect version
  */
 export async function detectESVersion(
-  url: string,
+  connection: ResolvedConnection,
   options?: {
-    username?: string;
-    password?: string;
-    apiKey?: string;
     timeout?: number;
-    rejectUnauthorized?: boolean;
   }
 ): Promise<ESVersionInfo> {
   const timeoutMs = options?.timeout || 10000;
 
   return new Promise((resolve, reject) => {
-    const urlObj = new URL(url);
+    const urlObj = new URL(connection.url);
     const isHttps = urlObj.protocol === 'https:';
     const httpModule = isHttps ? https : http;
 
@@ -65,18 +62,17 @@ export async function detectESVersion(
     };
 
     // Add authentication
-    if (options?.apiKey) {
-      requestOptions.headers['Authorization'] = `ApiKey ${options.apiKey}`;
-    } else if (options?.username && options?.password) {
-      const auth = Buffer.from(
-        `${options.username}:${options.password}`
-      ).toString('base64');
-      requestOptions.headers['Authorization'] = `Basic ${auth}`;
+    const authorization = authorizationHeader(connection.auth);
+    if (authorization) {
+      requestOptions.headers['Authorization'] = authorization;
     }
 
-    // Handle self-signed certificates
-    if (isHttps && options?.rejectUnauthorized === false) {
-      requestOptions.rejectUnauthorized = false;
+    // CA, client certificate (mTLS) and self-signed certificates, as the client will use them
+    if (isHttps) {
+      Object.assign(requestOptions, connection.tls);
+      if (connection.caFingerprint) {
+        requestOptions.agent = createPinnedCaAgent({ ...connection.tls }, connection.caFingerprint);
+      }
     }
 
     const req = httpModule.request(requestOptions, (res) => {
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiPolicy, classifyRequest } from '../dist/src/api-policy.js';
+
+const policy = new ApiPolicy({ readOnly: false, allowDestructive: false, allowlist: [], denylist: [] });
+
+test('deleting a single named index is destructive', () => {
+  const decision = policy.evaluate('DELETE', '/my-index');
+  assert.equal(decision.destructive, true);
+  assert.equal(decision.allowed, false);
+});
+
+test('_aliases with remove_index actions is destructive', () => {
+  const body = { actions: [{ add: { index: 'logs-2', alias: 'logs' } }, { remove_index: { index: 'logs-1' } }] };
+  assert.equal(policy.evaluate('POST', '/_aliases', body).allowed, false);
+  assert.equal(classifyRequest('POST', '/_aliases', body).category, 'admin');
+
+  const addOnly = { actions: [{ add: { index: 'logs-2', alias: 'logs' } }] };
+  assert.equal(policy.evaluate('POST', '/_aliases', addOnly).allowed, true);
+});
+
+test('comma-separated targets are checked entry by entry', () => {
+  assert.equal(classifyRequest('DELETE', '/foo,_all').destructive, true);
+  assert.equal(classifyRequest('POST', '/foo,logs-*/_delete_by_query').destructive, true);
+  assert.equal(classifyRequest('POST', '/foo,bar/_delete_by_query').destructive, false);
+  assert.equal(classifyRequest('DELETE', '/_index_template/a,*').destructive, true);
+});
+
+test('percent-encoded paths are classified decoded', () => {
+  assert.equal(classifyRequest('POST', '/%2A/_delete_by_query').destructive, true);
+  assert.equal(classifyRequest('POST', '/_%61ll/_close').destructive, true);
+  assert.equal(policy.evaluate('DELETE', '/_data_stream/logs-%2A').allowed, false);
+});
+
+test('wildcard deletes on underscore endpoints are destructive', () => {
+  for (const path of ['_data_stream/logs-*', '_index_template/*', '_ilm/policy/*']) {
+    assert.equal(classifyRequest('DELETE', path).destructive, true, path);
+  }
+  assert.equal(classifyRequest('DELETE', '_ilm/policy/hot-warm').destructive, false);
+});
+
+test('reads and single-document writes are not destructive', () => {
+  assert.equal(policy.evaluate('POST', '/logs/_search').allowed, true);
+  assert.equal(policy.evaluate('DELETE', '/logs/_doc/1').allowed, true);
+  assert.equal(policy.evaluate('PUT', '/logs/_doc/1').allowed, true);
+});
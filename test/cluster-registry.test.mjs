@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ClusterRegistry } from '../dist/src/cluster-registry.js';
+import { startFakeElasticsearch } from './helpers.mjs';
+
+const root = { name: 'node-1', cluster_name: 'test', version: { number: '8.12.0', build_flavor: 'default' }, tagline: 'You Know, for Search' };
+
+test('a connection that finishes after close() is closed, not registered', async () => {
+  const es = await startFakeElasticsearch((request) => {
+    if (request.path === '/') return root;
+    if (request.path.endsWith('_has_privileges')) return { has_all_requested: true, cluster: {}, index: {} };
+    return {};
+  });
+  const registry = new ClusterRegistry({ default: { url: es.url } }, 'default', { versionCheckInterval: '1s' });
+
+  try {
+    const connecting = registry.get();
+    await registry.close();
+
+    await assert.rejects(connecting, /closed while connecting/);
+    assert.equal(registry.peek('default'), undefined);
+    await assert.rejects(registry.get(), /closed/);
+  } finally {
+    await es.close();
+  }
+});
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@elastic/elasticsearch-v8';
+import { registerExecuteApi } from '../dist/src/tools/execute-api.js';
+import { ApiPolicy } from '../dist/src/api-policy.js';
+import { startFakeElasticsearch, fakeClusters, connectTools } from './helpers.mjs';
+
+const policy = new ApiPolicy({ readOnly: false, allowDestructive: false, allowlist: [], denylist: [] });
+
+async function setup() {
+  const es = await startFakeElasticsearch(() => ({ took: 1, errors: false, items: [] }));
+  const esClient = new Client({ node: es.url });
+  const tools = await connectTools((server) =>
+    registerExecuteApi(server, fakeClusters({ esClient, capabilityManager: {} }), 20000, policy)
+  );
+  return {
+    es,
+    tools,
+    close: async () => {
+      await tools.close();
+      await esClient.close();
+      await es.close();
+    },
+  };
+}
+
+test('execute_es_api sends NDJSON bodies with the NDJSON content type', async () => {
+  const { es, tools, close } = await setup();
+  try {
+    await tools.call('execute_es_api', {
+      method: 'POST',
+      path: '_bulk',
+      ndjson_lines: [{ index: { _index: 'logs' } }, { message: 'hello' }],
+    });
+
+    const [request] = es.requests;
+    assert.match(request.headers['content-type'], /x-ndjson/);
+    assert.equal(request.body, '{"index":{"_index":"logs"}}\n{"message":"hello"}\n');
+  } finally {
+    await close();
+  }
+});
+
+test('execute_es_api passes caller headers to Elasticsearch', async () => {
+  const { es, tools, close } = await setup();
+  try {
+    await tools.call('execute_es_api', {
+      method: 'POST',
+      path: 'logs/_search',
+      body: { query: { match_all: {} } },
+      headers: { 'X-Opaque-Id': 'trace-42' },
+    });
+
+    const [request] = es.requests;
+    assert.equal(request.headers['x-opaque-id'], 'trace-42');
+    assert.match(request.headers['content-type'], /json/);
+    assert.deepEqual(JSON.parse(request.body), { query: { match_all: {} } });
+  } finally {
+    await close();
+  }
+});
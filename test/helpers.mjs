@@ -0,0 +1,64 @@
+/**
+ * Test helpers - a recording fake Elasticsearch node and an in-memory MCP client
+ */
+
+import http from 'node:http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client as McpClient } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+/**
+ * Start an HTTP server that records every request and answers with respond(request)
+ * respond returns the JSON body to send (or { status, body })
+ */
+export async function startFakeElasticsearch(respond = () => ({})) {
+  const requests = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const url = new URL(req.url, 'http://localhost');
+      const request = { method: req.method, path: url.pathname, query: url.searchParams, headers: req.headers, body };
+      requests.push(request);
+      const result = respond(request) ?? {};
+      const { status = 200, body: payload = result } = 'status' in result ? result : { body: result };
+      res.writeHead(status, { 'content-type': 'application/json', 'x-elastic-product': 'Elasticsearch' });
+      res.end(JSON.stringify(payload));
+    });
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}`,
+    requests,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+/**
+ * A cluster registry stand-in that hands every tool the same connection
+ */
+export function fakeClusters(connection) {
+  return {
+    get: async () => ({ name: 'default', ...connection }),
+    describeClusterParam: () => 'Cluster to use',
+  };
+}
+
+/**
+ * Register tools on a fresh McpServer and connect an in-memory client to it
+ */
+export async function connectTools(register) {
+  const server = new McpServer({ name: 'test', version: '0.0.0' });
+  const registered = register(server);
+  const client = new McpClient({ name: 'test-client', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return {
+    registered,
+    call: (name, args) => client.callTool({ name, arguments: args }),
+    close: async () => {
+      await client.close();
+      await server.close();
+    },
+  };
+}
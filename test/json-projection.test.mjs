@@ -0,0 +1,24 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { projectJson } from '../dist/src/json-projection.js';
+
+const response = {
+  items: [
+    { a: 0, b: 'zero' },
+    { a: 1, b: 'one' },
+    { a: 2, b: 'two' },
+  ],
+};
+
+test('an indexed selector merges with a wildcard selector at its own position', () => {
+  assert.deepEqual(projectJson(response, ['items[2].a', 'items[*].b']), {
+    items: [{ b: 'zero' }, { b: 'one' }, { a: 2, b: 'two' }],
+  });
+  assert.deepEqual(projectJson(response, ['items[*].b', 'items[2].a']), {
+    items: [{ b: 'zero' }, { b: 'one' }, { b: 'two', a: 2 }],
+  });
+});
+
+test('an indexed selector on its own returns just that element', () => {
+  assert.deepEqual(projectJson(response, ['items[1].b']), { items: [{ b: 'one' }] });
+});
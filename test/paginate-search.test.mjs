@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@elastic/elasticsearch-v8';
+import { registerPaginateSearch } from '../dist/src/tools/paginate-search.js';
+import { registerContinueResult } from '../dist/src/tools/continue-result.js';
+import { ContinuationStore, scopeContinuations } from '../dist/src/response-shaper.js';
+import { CapabilityManager } from '../dist/src/capability-manager.js';
+import { startFakeElasticsearch, fakeClusters, connectTools } from './helpers.mjs';
+
+const hit = (i) => ({
+  _index: 'logs',
+  _id: String(i),
+  _source: { message: `event ${i} `.repeat(40) },
+  sort: [i],
+});
+
+test('paginate_search keeps the hits of a page over the token limit', async () => {
+  const es = await startFakeElasticsearch((request) => {
+    if (request.path === '/logs/_pit') return { id: 'pit-1' };
+    if (request.path === '/_pit') return { succeeded: true, num_freed: 1 };
+    const { search_after } = JSON.parse(request.body);
+    const hits = search_after ? [hit(4)] : [hit(0), hit(1), hit(2), hit(3)];
+    return { pit_id: 'pit-1', hits: { total: { value: 5, relation: 'eq' }, hits } };
+  });
+  const esClient = new Client({ node: es.url });
+  const capabilityManager = { supportsPointInTime: () => true, supportsShardDocSort: () => true };
+  const tools = await connectTools((server) => {
+    scopeContinuations(server, new ContinuationStore());
+    registerContinueResult(server, 400);
+    return registerPaginateSearch(server, fakeClusters({ esClient, capabilityManager }), 400);
+  });
+
+  try {
+    const first = await tools.call('paginate_search', { index: 'logs', page_size: 4 });
+    assert.notEqual(first.isError, true);
+    const firstText = first.content.map((item) => item.text).join('\n');
+    const cursor = firstText.match(/cursor: "([0-9a-f-]+)"/)[1];
+    const continuation = firstText.match(/"continuation": "([0-9a-f-]+)"/)[1];
+    const shown = first.content.filter((item) => item.text.startsWith('_index')).length;
+    assert.ok(shown > 0 && shown < 4);
+
+    // The rest of the page is still there
+    const rest = await tools.call('continue_result', { continuation });
+    const restIds = rest.content.filter((item) => item.text.startsWith('_index')).map((item) => item.text.match(/_id: (\d+)/)[1]);
+    assert.equal(restIds[0], String(shown));
+
+    // The next page continues after the last hit of the shaped page
+    const second = await tools.call('paginate_search', { cursor });
+    assert.match(second.content[0].text, /Page 2: hits 5-5 of 5/);
+    const searches = es.requests.filter((request) => request.path === '/_search');
+    assert.deepEqual(JSON.parse(searches[1].body).search_after, [3]);
+    assert.deepEqual(JSON.parse(searches[0].body).sort, ['_shard_doc']);
+  } finally {
+    await tools.registered.closeAll();
+    await tools.close();
+    await esClient.close();
+    await es.close();
+  }
+});
+
+test('paginate_search scrolls on OpenSearch', async () => {
+  const es = await startFakeElasticsearch((request) => {
+    if (request.path === '/logs/_search') return { _scroll_id: 'scroll-1', hits: { total: { value: 3, relation: 'eq' }, hits: [hit(0), hit(1)] } };
+    if (request.path === '/_search/scroll' && request.method === 'DELETE') return { succeeded: true, num_freed: 1 };
+    if (request.path === '/_search/scroll') return { _scroll_id: 'scroll-1', hits: { total: { value: 3, relation: 'eq' }, hits: [hit(2)] } };
+    return {};
+  });
+  const esClient = new Client({ node: es.url });
+  const capabilityManager = new CapabilityManager({ major: 2, minor: 11, patch: 0, full: '2.11.0', distribution: 'opensearch' });
+  assert.equal(capabilityManager.supportsPointInTime(), false);
+  const tools = await connectTools((server) => {
+    scopeContinuations(server, new ContinuationStore());
+    return registerPaginateSearch(server, fakeClusters({ esClient, capabilityManager }), 10000);
+  });
+
+  try {
+    const first = await tools.call('paginate_search', { index: 'logs', page_size: 2 });
+    assert.notEqual(first.isError, true);
+    const cursor = first.content.map((item) => item.text).join('\n').match(/cursor: "([0-9a-f-]+)"/)[1];
+    const second = await tools.call('paginate_search', { cursor });
+    assert.match(second.content[0].text, /Page 2: hits 3-3 of 3/);
+
+    assert.equal(es.requests.some((request) => request.path.endsWith('_pit') || request.path.includes('point_in_time')), false);
+    assert.equal(es.requests.find((request) => request.path === '/logs/_search').query.get('scroll'), '1m');
+  } finally {
+    await tools.registered.closeAll();
+    await tools.close();
+    await esClient.close();
+    await es.close();
+  }
+});
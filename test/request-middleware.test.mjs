@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { withRequestMiddleware } from '../dist/src/request-middleware.js';
+
+function legacyCapabilities(major) {
+  return {
+    isOpenSearch: () => false,
+    getVersion: () => ({ major }),
+    prepareRequest: (api, params) => params,
+    normalizeResponse: (api, response) => response,
+  };
+}
+
+test('legacy clients receive search request keys inside the body', async () => {
+  const calls = [];
+  const client = { search: async (params) => (calls.push(params), { hits: { hits: [] } }) };
+  const wrapped = withRequestMiddleware(client, legacyCapabilities(7));
+
+  const bodyKeys = {
+    query: { match_all: {} },
+    profile: true,
+    indices_boost: [{ logs: 2 }],
+    knn: { field: 'vector', query_vector: [1, 2], k: 3, num_candidates: 10 },
+    track_scores: true,
+    stored_fields: ['title'],
+    explain: true,
+  };
+  await wrapped.search({ index: 'logs', size: 5, ...bodyKeys });
+
+  assert.equal(calls.length, 1);
+  assert.deepEqual(calls[0], { index: 'logs', size: 5, body: bodyKeys });
+});